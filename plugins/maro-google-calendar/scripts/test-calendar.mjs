@@ -12,8 +12,8 @@ async function run() {
   
   const { client_id, client_secret } = credentials.installed;
   
-  // OOB redirect - prevents browser popup
-  const oauth2Client = new google.auth.OAuth2(client_id, client_secret, 'urn:ietf:wg:oauth:2.0:oob');
+  // No redirect URI needed - only refreshes existing tokens
+  const oauth2Client = new google.auth.OAuth2(client_id, client_secret);
   oauth2Client.setCredentials(tokens);
   
   // Silent token refresh
@@ -15,11 +15,48 @@ import {
   handleCreateEvent,
   handleUpdateEvent,
   handleDeleteEvent,
+  handleMoveEvent,
+  handleRespondToEvent,
+  handleGetEvent,
+  handleListCalendars,
+  handleGetCalendar,
+  handleCreateCalendar,
+  handleUpdateCalendar,
+  handleDeleteCalendar,
+  handleListCalendarShares,
+  handleShareCalendar,
+  handleRevokeCalendarShare,
+  handleFindFreeSlots,
+  handlePreviewRecurrence,
+  handleListChanges,
+  handleUndoLastChange,
+  handleUndoChange,
   handleGetAuthStatus,
+  handleAuthenticate,
+  handleSignOut,
   ListEventsSchema,
   CreateEventSchema,
   UpdateEventSchema,
   DeleteEventSchema,
+  MoveEventSchema,
+  RespondToEventSchema,
+  GetEventSchema,
+  ListCalendarsSchema,
+  GetCalendarSchema,
+  CreateCalendarSchema,
+  UpdateCalendarSchema,
+  DeleteCalendarSchema,
+  ListCalendarSharesSchema,
+  ShareCalendarSchema,
+  RevokeCalendarShareSchema,
+  FindFreeSlotsSchema,
+  PreviewRecurrenceSchema,
+  ListChangesSchema,
+  UndoLastChangeSchema,
+  UndoChangeSchema,
+  AuthStatusSchema,
+  AuthenticateSchema,
+  SignOutSchema,
 } from './tools/index.js';
 import { authService } from './services/auth.service.js';
 
@@ -47,27 +84,113 @@ export function createServer(): Server {
         },
         {
           name: 'create_event',
-          description: 'Create a new calendar event. Supports natural language for dates and times.',
+          description: 'Create a new calendar event. Supports natural language for dates, times and repeat rules (preview them first with preview_recurrence). Set addConference to attach a Google Meet link. Checks the time for overlapping events first; by default it returns the conflicts without creating anything, see conflictPolicy. Set dryRun to see the resolved event without creating it.',
           inputSchema: zodToJsonSchema(CreateEventSchema),
         },
         {
           name: 'update_event',
-          description: 'Update an existing calendar event by ID.',
+          description: 'Update an existing calendar event by ID. For recurring events, choose whether the change applies to this occurrence, this and following, or all. Use addAttendees and removeAttendees to change single guests without touching the replies of other guests. A new time is checked for overlapping events as in create_event. Set dryRun to see a diff without saving.',
           inputSchema: zodToJsonSchema(UpdateEventSchema),
         },
         {
           name: 'delete_event',
-          description: 'Delete a calendar event by ID.',
+          description: 'Delete a calendar event by ID. For recurring events, choose this occurrence, this and following, or the whole series. Set dryRun to see what would be removed.',
           inputSchema: zodToJsonSchema(DeleteEventSchema),
         },
+        {
+          name: 'move_event',
+          description: 'Move an event to another calendar, e.g., from a personal calendar to a team calendar. The destination calendar becomes the organizer and the event keeps its ID. Recurring events move as a whole series. Set dryRun to check the move first.',
+          inputSchema: zodToJsonSchema(MoveEventSchema),
+        },
+        {
+          name: 'respond_to_event',
+          description: 'Accept, decline or tentatively accept an invitation, with an optional comment and a proposed new time. Only your own reply changes. Omit eventId and give timeMin/timeMax to reply to every invitation in a range, e.g., decline everything on Friday afternoon. Set dryRun to list the invitations first.',
+          inputSchema: zodToJsonSchema(RespondToEventSchema),
+        },
+        {
+          name: 'get_event',
+          description: 'Get full details of a calendar event by ID, including attendee responses, recurrence and conference links.',
+          inputSchema: zodToJsonSchema(GetEventSchema),
+        },
+        {
+          name: 'list_calendars',
+          description: 'List available calendars with their IDs, access roles, colors, time zones and primary/hidden flags.',
+          inputSchema: zodToJsonSchema(ListCalendarsSchema),
+        },
+        {
+          name: 'get_calendar',
+          description: 'Get one calendar by ID or display name.',
+          inputSchema: zodToJsonSchema(GetCalendarSchema),
+        },
+        {
+          name: 'create_calendar',
+          description: 'Create a secondary calendar with an optional description and default time zone.',
+          inputSchema: zodToJsonSchema(CreateCalendarSchema),
+        },
+        {
+          name: 'update_calendar',
+          description: 'Rename a calendar or change its description or default time zone.',
+          inputSchema: zodToJsonSchema(UpdateCalendarSchema),
+        },
+        {
+          name: 'delete_calendar',
+          description: 'Delete a secondary calendar and all of its events. The primary calendar cannot be deleted.',
+          inputSchema: zodToJsonSchema(DeleteCalendarSchema),
+        },
+        {
+          name: 'list_calendar_shares',
+          description: 'List the sharing (ACL) rules of a calendar.',
+          inputSchema: zodToJsonSchema(ListCalendarSharesSchema),
+        },
+        {
+          name: 'share_calendar',
+          description: 'Share a calendar with a user, group or domain at a given access role.',
+          inputSchema: zodToJsonSchema(ShareCalendarSchema),
+        },
+        {
+          name: 'revoke_calendar_share',
+          description: 'Revoke a calendar share by rule ID or by scope type and email/domain.',
+          inputSchema: zodToJsonSchema(RevokeCalendarShareSchema),
+        },
+        {
+          name: 'find_free_slots',
+          description: 'Find ranked meeting slots when all attendees are free, using the free/busy API. Supports natural language for the window and duration.',
+          inputSchema: zodToJsonSchema(FindFreeSlotsSchema),
+        },
+        {
+          name: 'preview_recurrence',
+          description: 'Preview a recurring schedule before creating it: translates phrases like "every other Tuesday until March" to RRULE and lists the next occurrences. Nothing is saved.',
+          inputSchema: zodToJsonSchema(PreviewRecurrenceSchema),
+        },
+        {
+          name: 'list_changes',
+          description: 'List recent event changes made through this server (newest first) with the IDs undo_change takes.',
+          inputSchema: zodToJsonSchema(ListChangesSchema),
+        },
+        {
+          name: 'undo_last_change',
+          description: 'Undo the most recent event change not yet undone: deletes an event that was created, reverts an update, or restores a deleted event. Refuses if the event was edited since, unless force is set.',
+          inputSchema: zodToJsonSchema(UndoLastChangeSchema),
+        },
+        {
+          name: 'undo_change',
+          description: 'Undo a specific change by its ID from list_changes. Undoing an undo re-applies the original change.',
+          inputSchema: zodToJsonSchema(UndoChangeSchema),
+        },
         {
           name: 'auth_status',
-          description: 'Check Google Calendar authentication status.',
-          inputSchema: {
-            type: 'object',
-            properties: {},
-            required: [],
-          },
+          description: 'Check Google Calendar authentication status for every account, or start signing in a named account.',
+          inputSchema: zodToJsonSchema(AuthStatusSchema),
+        },
+        {
+          name: 'authenticate',
+          description: 'Complete Google sign-in by exchanging the authorization code obtained from the auth_status authUrl.',
+          inputSchema: zodToJsonSchema(AuthenticateSchema),
+        },
+        {
+          name: 'sign_out',
+          description: 'Revoke the stored Google Calendar tokens of an account and sign out.',
+          inputSchema: zodToJsonSchema(SignOutSchema),
         },
       ],
     };
@@ -101,8 +224,99 @@ export function createServer(): Server {
           result = await handleDeleteEvent(parsed);
           break;
         }
+        case 'move_event': {
+          const parsed = MoveEventSchema.parse(args);
+          result = await handleMoveEvent(parsed);
+          break;
+        }
+        case 'respond_to_event': {
+          const parsed = RespondToEventSchema.parse(args);
+          result = await handleRespondToEvent(parsed);
+          break;
+        }
+        case 'get_event': {
+          const parsed = GetEventSchema.parse(args);
+          result = await handleGetEvent(parsed);
+          break;
+        }
+        case 'list_calendars': {
+          const parsed = ListCalendarsSchema.parse(args ?? {});
+          result = await handleListCalendars(parsed);
+          break;
+        }
+        case 'get_calendar': {
+          const parsed = GetCalendarSchema.parse(args);
+          result = await handleGetCalendar(parsed);
+          break;
+        }
+        case 'create_calendar': {
+          const parsed = CreateCalendarSchema.parse(args);
+          result = await handleCreateCalendar(parsed);
+          break;
+        }
+        case 'update_calendar': {
+          const parsed = UpdateCalendarSchema.parse(args);
+          result = await handleUpdateCalendar(parsed);
+          break;
+        }
+        case 'delete_calendar': {
+          const parsed = DeleteCalendarSchema.parse(args);
+          result = await handleDeleteCalendar(parsed);
+          break;
+        }
+        case 'list_calendar_shares': {
+          const parsed = ListCalendarSharesSchema.parse(args);
+          result = await handleListCalendarShares(parsed);
+          break;
+        }
+        case 'share_calendar': {
+          const parsed = ShareCalendarSchema.parse(args);
+          result = await handleShareCalendar(parsed);
+          break;
+        }
+        case 'revoke_calendar_share': {
+          const parsed = RevokeCalendarShareSchema.parse(args);
+          result = await handleRevokeCalendarShare(parsed);
+          break;
+        }
+        case 'find_free_slots': {
+          const parsed = FindFreeSlotsSchema.parse(args ?? {});
+          result = await handleFindFreeSlots(parsed);
+          break;
+        }
+        case 'preview_recurrence': {
+          const parsed = PreviewRecurrenceSchema.parse(args);
+          result = await handlePreviewRecurrence(parsed);
+          break;
+        }
+        case 'list_changes': {
+          const parsed = ListChangesSchema.parse(args ?? {});
+          result = await handleListChanges(parsed);
+          break;
+        }
+        case 'undo_last_change': {
+          const parsed = UndoLastChangeSchema.parse(args ?? {});
+          result = await handleUndoLastChange(parsed);
+          break;
+        }
+        case 'undo_change': {
+          const parsed = UndoChangeSchema.parse(args);
+          result = await handleUndoChange(parsed);
+          break;
+        }
         case 'auth_status': {
-          result = await handleGetAuthStatus();
+          const parsed = AuthStatusSchema.parse(args ?? {});
+          result = await handleGetAuthStatus(parsed);
+          break;
+        }
+        case 'authenticate': {
+          const parsed = AuthenticateSchema.parse(args);
+          result = await handleAuthenticate(parsed);
+          break;
+        }
+        case 'sign_out': {
+          const parsed = SignOutSchema.parse(args ?? {});
+          result = await handleSignOut(parsed);
           break;
         }
         default:
@@ -152,7 +366,7 @@ export async function runServer(): Promise<void> {
   try {
     await authService.initialize();
     console.error('[google-calendar-mcp] Auth service initialized');
-    console.error('[google-calendar-mcp] Auth status:', JSON.stringify(authService.getStatus()));
+    console.error('[google-calendar-mcp] Auth status:', JSON.stringify(await authService.getStatus(false)));
   } catch (error) {
     console.error('[google-calendar-mcp] Auth initialization warning:', error);
     // Continue anyway - user can check auth_status and authenticate later
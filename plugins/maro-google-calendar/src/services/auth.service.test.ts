@@ -0,0 +1,98 @@
+import { createHash } from 'node:crypto';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { authService } from './auth.service.js';
+
+/**
+ * Stands in for Google's token endpoint and records each code exchange
+ */
+function startFakeTokenEndpoint(): Promise<{ server: Server; url: string; requests: URLSearchParams[] }> {
+  const requests: URLSearchParams[] = [];
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      requests.push(new URLSearchParams(body));
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+        access_token: 'fake-access-token',
+        refresh_token: 'fake-refresh-token',
+        expires_in: 3600,
+        token_type: 'Bearer',
+        scope: 'https://www.googleapis.com/auth/calendar',
+      }));
+    });
+  });
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}/token`, requests });
+    });
+  });
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the condition');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('loopback PKCE sign-in', () => {
+  let dir: string;
+  let tokenEndpoint: Awaited<ReturnType<typeof startFakeTokenEndpoint>>;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'gcal-auth-'));
+    tokenEndpoint = await startFakeTokenEndpoint();
+    await writeFile(join(dir, 'credentials.json'), JSON.stringify({
+      installed: {
+        client_id: 'test-client',
+        client_secret: 'test-secret',
+        redirect_uris: ['http://127.0.0.1'],
+        auth_uri: 'https://accounts.google.com/o/oauth2/auth',
+        token_uri: 'https://oauth2.googleapis.com/token',
+      },
+    }));
+    vi.stubEnv('XDG_CONFIG_HOME', dir);
+    vi.stubEnv('GOOGLE_CALENDAR_CREDENTIALS_PATH', join(dir, 'credentials.json'));
+    vi.stubEnv('GOOGLE_CALENDAR_DATA_DIR', dir);
+    vi.stubEnv('GOOGLE_CALENDAR_TOKEN_STORE', 'plain');
+    vi.stubEnv('GOOGLE_CALENDAR_OAUTH_TOKEN_URL', tokenEndpoint.url);
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await new Promise((resolve) => tokenEndpoint.server.close(resolve));
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('exchanges the redirected code with the PKCE verifier and stores the tokens', async () => {
+    const authUrl = new URL(await authService.generateAuthUrl());
+    const redirectUri = authUrl.searchParams.get('redirect_uri')!;
+    const state = authUrl.searchParams.get('state')!;
+    expect(authUrl.searchParams.get('code_challenge_method')).toBe('S256');
+
+    // A prefetch of the bare callback URL must not end the flow
+    expect((await fetch(redirectUri)).status).toBe(400);
+
+    const callback = await fetch(`${redirectUri}?code=4/test-code&state=${state}`);
+    expect(callback.status).toBe(200);
+    await waitFor(() => authService.isAuthenticated());
+
+    const [exchange] = tokenEndpoint.requests;
+    expect(tokenEndpoint.requests).toHaveLength(1);
+    expect(exchange?.get('grant_type')).toBe('authorization_code');
+    expect(exchange?.get('code')).toBe('4/test-code');
+    expect(exchange?.get('redirect_uri')).toBe(redirectUri);
+    const challenge = createHash('sha256').update(exchange?.get('code_verifier') ?? '').digest('base64url');
+    expect(challenge).toBe(authUrl.searchParams.get('code_challenge'));
+
+    const stored = JSON.parse(await readFile(join(dir, 'tokens.json'), 'utf-8'));
+    expect(stored).toMatchObject({ access_token: 'fake-access-token', refresh_token: 'fake-refresh-token' });
+  });
+});
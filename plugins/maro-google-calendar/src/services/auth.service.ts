@@ -1,28 +1,93 @@
 /**
  * Google Calendar MCP Server - Authentication Service
- * Handles OAuth2 token management with auto-refresh
+ * Handles OAuth2 token management with auto-refresh for one or more named accounts
  */
 
 import { google } from 'googleapis';
-import type { OAuth2Client } from 'google-auth-library';
-import { readFile, writeFile, mkdir, access } from 'node:fs/promises';
-import { dirname, resolve } from 'node:path';
-import { fileURLToPath } from 'node:url';
-import type { OAuthCredentials, OAuthTokens } from '../types/calendar.types.js';
-import { CalendarError, ErrorCodes } from '../utils/error-handler.js';
+import type { CodeChallengeMethod, OAuth2Client } from 'google-auth-library';
+import { randomBytes } from 'node:crypto';
+import { readFile, readdir } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import type {
+  AccountStatus,
+  AuthMode,
+  AuthStatus,
+  OAuthCredentials,
+  OAuthTokens,
+  ServerConfig,
+  ServiceAccountCredentials,
+} from '../types/calendar.types.js';
+import { CalendarError, ErrorCodes, formatErrorForLog } from '../utils/error-handler.js';
+import { loadConfig } from '../utils/config.js';
+import { startLoopbackListener, type LoopbackListener } from '../utils/loopback-server.js';
+import { createTokenStore, type TokenStore } from './token-store.js';
 
-const __dirname = dirname(fileURLToPath(import.meta.url));
-const PROJECT_ROOT = resolve(__dirname, '../..');
+/**
+ * Account used when a tool call does not name one.
+ * The "default" account keeps its tokens in <dataDir>/tokens.json; others use <dataDir>/tokens.<name>.json.
+ */
+const BUILTIN_DEFAULT_ACCOUNT = 'default';
+const ACCOUNT_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const TOKENS_FILE_PATTERN = /^tokens(?:\.([A-Za-z0-9_-]{1,64}))?\.json$/;
+
+/**
+ * In service account mode, accounts other than "default" are user emails to impersonate
+ */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
-const SCOPES = ['https://www.googleapis.com/auth/calendar'];
-const CREDENTIALS_PATH = resolve(PROJECT_ROOT, 'config/credentials.json');
-const TOKENS_PATH = resolve(PROJECT_ROOT, 'data/tokens.json');
+/**
+ * In-flight loopback authorization (PKCE verifier and redirect listener)
+ */
+interface PendingAuthorization {
+  authUrl: string;
+  codeVerifier: string;
+  listener: LoopbackListener;
+}
+
+/**
+ * Per-account OAuth2 client and token state
+ */
+interface AccountSession {
+  name: string;
+  subject?: string;
+  tokensPath: string;
+  oauth2Client: OAuth2Client;
+  tokens: OAuthTokens | null;
+  pendingAuth: PendingAuthorization | null;
+}
+
+function tokensPathFor(dataDir: string, account: string): string {
+  return account === BUILTIN_DEFAULT_ACCOUNT
+    ? resolve(dataDir, 'tokens.json')
+    : resolve(dataDir, `tokens.${account}.json`);
+}
+
+function validateAccountName(account: string, mode: AuthMode): string {
+  if (mode === 'service_account' && EMAIL_PATTERN.test(account)) return account;
+  if (!ACCOUNT_NAME_PATTERN.test(account)) {
+    throw new CalendarError(
+      mode === 'service_account'
+        ? `Invalid account: "${account}". Use "default" or the email of a user to impersonate`
+        : `Invalid account name: "${account}". Use letters, digits, "-" or "_"`,
+      ErrorCodes.INVALID_INPUT
+    );
+  }
+  return account;
+}
+
+function isServiceAccountCredentials(value: unknown): value is ServiceAccountCredentials {
+  return typeof value === 'object' && value !== null && (value as ServiceAccountCredentials).type === 'service_account';
+}
 
 class AuthService {
   private static instance: AuthService;
-  private oauth2Client: OAuth2Client | null = null;
+  private config: ServerConfig | null = null;
   private credentials: OAuthCredentials | null = null;
-  private tokens: OAuthTokens | null = null;
+  private serviceAccount: ServiceAccountCredentials | null = null;
+  private mode: AuthMode = 'oauth';
+  private tokenStore: TokenStore | null = null;
+  private sessions = new Map<string, AccountSession>();
+  private defaultAccount = BUILTIN_DEFAULT_ACCOUNT;
   private initialized = false;
 
   private constructor() {}
@@ -36,20 +101,38 @@ class AuthService {
 
   public async initialize(): Promise<void> {
     if (this.initialized) return;
+    this.config = await loadConfig();
     await this.loadCredentials();
-    await this.loadTokens();
-    this.createOAuth2Client();
+    this.defaultAccount = validateAccountName(
+      this.config.defaultAccount || BUILTIN_DEFAULT_ACCOUNT,
+      this.mode
+    );
+    if (this.mode === 'oauth') {
+      this.tokenStore = await createTokenStore();
+      // Loading every known account also migrates plaintext token files to the active store
+      for (const account of await this.discoverAccounts()) {
+        await this.loadSession(account);
+      }
+    }
+    await this.loadSession(this.defaultAccount);
     this.initialized = true;
   }
 
   private async loadCredentials(): Promise<void> {
     try {
-      const content = await readFile(CREDENTIALS_PATH, 'utf-8');
-      this.credentials = JSON.parse(content) as OAuthCredentials;
+      const content = await readFile(this.getConfig().credentialsPath, 'utf-8');
+      const parsed: unknown = JSON.parse(content);
+      if (isServiceAccountCredentials(parsed)) {
+        this.serviceAccount = parsed;
+        this.mode = 'service_account';
+      } else {
+        this.credentials = parsed as OAuthCredentials;
+        this.mode = 'oauth';
+      }
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
         throw new CalendarError(
-          'OAuth credentials not found. Place credentials.json in config/',
+          `OAuth credentials not found. Place credentials.json at ${this.getConfig().credentialsPath}`,
           ErrorCodes.AUTH_NOT_CONFIGURED
         );
       }
@@ -57,27 +140,109 @@ class AuthService {
     }
   }
 
-  private async loadTokens(): Promise<void> {
+  /**
+   * Find accounts that already have a token file in the data directory
+   */
+  private async discoverAccounts(): Promise<string[]> {
+    let entries: string[];
     try {
-      const content = await readFile(TOKENS_PATH, 'utf-8');
-      this.tokens = JSON.parse(content) as OAuthTokens;
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        this.tokens = null;
-        return;
-      }
-      throw new CalendarError('Failed to load tokens', ErrorCodes.PARSE_ERROR);
+      entries = await readdir(this.getConfig().dataDir);
+    } catch {
+      return [];
+    }
+    const accounts: string[] = [];
+    for (const entry of entries) {
+      const match = entry.match(TOKENS_FILE_PATTERN);
+      if (match) accounts.push(match[1] ?? BUILTIN_DEFAULT_ACCOUNT);
     }
+    return accounts.sort();
   }
 
-  private async saveTokens(tokens: OAuthTokens): Promise<void> {
-    const dataDir = dirname(TOKENS_PATH);
-    try { await access(dataDir); } catch { await mkdir(dataDir, { recursive: true }); }
-    await writeFile(TOKENS_PATH, JSON.stringify(tokens, null, 2));
-    this.tokens = tokens;
+  private getConfig(): ServerConfig {
+    if (!this.config) {
+      throw new CalendarError('Configuration not loaded', ErrorCodes.AUTH_NOT_CONFIGURED);
+    }
+    return this.config;
   }
 
-  private createOAuth2Client(): void {
+  private getTokenStore(): TokenStore {
+    if (!this.tokenStore) {
+      throw new CalendarError('Token store not initialized', ErrorCodes.AUTH_NOT_CONFIGURED);
+    }
+    return this.tokenStore;
+  }
+
+  private async saveTokens(session: AccountSession, tokens: OAuthTokens): Promise<void> {
+    await this.getTokenStore().save(session.tokensPath, tokens);
+    session.tokens = tokens;
+  }
+
+  /**
+   * Get the session for an account, loading its tokens on first use
+   */
+  private async loadSession(account: string): Promise<AccountSession> {
+    const existing = this.sessions.get(account);
+    if (existing) return existing;
+    if (this.mode === 'service_account') return this.loadServiceAccountSession(account);
+
+    const tokensPath = tokensPathFor(this.getConfig().dataDir, account);
+    const session: AccountSession = {
+      name: account,
+      tokensPath,
+      oauth2Client: this.createOAuth2Client(),
+      tokens: await this.getTokenStore().load(tokensPath),
+      pendingAuth: null,
+    };
+    if (session.tokens) session.oauth2Client.setCredentials(session.tokens);
+    session.oauth2Client.on('tokens', (t) => { void this.handleTokenRefresh(session, t); });
+    this.sessions.set(account, session);
+    return session;
+  }
+
+  /**
+   * Service account sessions hold no token file; the JWT client fetches its own tokens.
+   * "default" impersonates GOOGLE_CALENDAR_IMPERSONATE_SUBJECT (if set); any other account is the subject.
+   */
+  private loadServiceAccountSession(account: string): AccountSession {
+    if (!this.serviceAccount) {
+      throw new CalendarError('Service account key not loaded', ErrorCodes.AUTH_NOT_CONFIGURED);
+    }
+    const subject = account === BUILTIN_DEFAULT_ACCOUNT
+      ? process.env.GOOGLE_CALENDAR_IMPERSONATE_SUBJECT || undefined
+      : account;
+    const session: AccountSession = {
+      name: account,
+      subject,
+      tokensPath: '',
+      oauth2Client: new google.auth.JWT({
+        email: this.serviceAccount.client_email,
+        key: this.serviceAccount.private_key,
+        keyId: this.serviceAccount.private_key_id,
+        scopes: this.getConfig().scopes,
+        subject,
+      }),
+      tokens: null,
+      pendingAuth: null,
+    };
+    this.sessions.set(account, session);
+    return session;
+  }
+
+  private assertOAuthMode(action: string): void {
+    if (this.mode === 'service_account') {
+      throw new CalendarError(
+        `${action} is not available in service account mode`,
+        ErrorCodes.INVALID_INPUT
+      );
+    }
+  }
+
+  private async getSession(account?: string): Promise<AccountSession> {
+    if (!this.initialized) await this.initialize();
+    return this.loadSession(this.resolveAccount(account));
+  }
+
+  private createOAuth2Client(): OAuth2Client {
     if (!this.credentials) {
       throw new CalendarError('Credentials not loaded', ErrorCodes.AUTH_NOT_CONFIGURED);
     }
@@ -85,109 +250,210 @@ class AuthService {
     if (!clientConfig) {
       throw new CalendarError('Invalid credentials format', ErrorCodes.AUTH_NOT_CONFIGURED);
     }
-    this.oauth2Client = new google.auth.OAuth2(
-      clientConfig.client_id,
-      clientConfig.client_secret,
-      'urn:ietf:wg:oauth:2.0:oob' // OOB - no browser popup
-    );
-    if (this.tokens) this.oauth2Client.setCredentials(this.tokens);
-    this.oauth2Client.on('tokens', (t) => { void this.handleTokenRefresh(t); });
+    // Honor the configured endpoints so a fake token server can stand in for Google
+    const tokenUrl = this.getConfig().oauthTokenUrl || clientConfig.token_uri;
+    return new google.auth.OAuth2({
+      clientId: clientConfig.client_id,
+      clientSecret: clientConfig.client_secret,
+      endpoints: {
+        ...(clientConfig.auth_uri && { oauth2AuthBaseUrl: clientConfig.auth_uri }),
+        ...(tokenUrl && { oauth2TokenUrl: tokenUrl }),
+      },
+    });
   }
 
-  private async handleTokenRefresh(tokens: {
-    access_token?: string | null;
-    refresh_token?: string | null;
-    expiry_date?: number | null;
-  }): Promise<void> {
-    if (!this.tokens) return;
+  private async handleTokenRefresh(
+    session: AccountSession,
+    tokens: {
+      access_token?: string | null;
+      refresh_token?: string | null;
+      expiry_date?: number | null;
+    }
+  ): Promise<void> {
+    if (!session.tokens) return;
     const updated: OAuthTokens = {
-      ...this.tokens,
-      access_token: tokens.access_token || this.tokens.access_token,
-      expiry_date: tokens.expiry_date || this.tokens.expiry_date,
+      ...session.tokens,
+      access_token: tokens.access_token || session.tokens.access_token,
+      expiry_date: tokens.expiry_date || session.tokens.expiry_date,
     };
     if (tokens.refresh_token) updated.refresh_token = tokens.refresh_token;
-    await this.saveTokens(updated);
+    await this.saveTokens(session, updated);
+  }
+
+  /**
+   * Resolve an optional account argument to a validated account name
+   */
+  public resolveAccount(account?: string): string {
+    return account ? validateAccountName(account, this.mode) : this.defaultAccount;
+  }
+
+  public getMode(): AuthMode {
+    return this.mode;
+  }
+
+  public getDefaultAccount(): string {
+    return this.defaultAccount;
+  }
+
+  public listAccounts(): string[] {
+    return [...this.sessions.keys()].sort();
   }
 
-  public isAuthenticated(): boolean {
-    return this.tokens !== null && this.oauth2Client !== null;
+  public isAuthenticated(account?: string): boolean {
+    if (this.mode === 'service_account') return this.serviceAccount !== null;
+    const session = this.sessions.get(this.resolveAccount(account));
+    return !!session && session.tokens !== null;
   }
 
-  public needsRefresh(): boolean {
-    if (!this.tokens || !this.tokens.expiry_date) return true;
+  public needsRefresh(account?: string): boolean {
+    const session = this.sessions.get(this.resolveAccount(account));
+    const expiryDate = this.mode === 'service_account'
+      ? session?.oauth2Client.credentials.expiry_date
+      : session?.tokens?.expiry_date;
+    if (!expiryDate) return true;
     const buffer = 5 * 60 * 1000;
-    return Date.now() >= this.tokens.expiry_date - buffer;
+    return Date.now() >= expiryDate - buffer;
   }
 
-  public async getClient(): Promise<OAuth2Client> {
-    if (!this.initialized) await this.initialize();
-    if (!this.oauth2Client) {
-      throw new CalendarError('OAuth2 client not initialized', ErrorCodes.AUTH_NOT_CONFIGURED);
-    }
-    if (!this.isAuthenticated()) {
-      const authUrl = this.generateAuthUrl();
-      throw new CalendarError('Not authenticated. Visit: ' + authUrl, ErrorCodes.AUTH_TOKEN_INVALID);
+  public async getClient(account?: string): Promise<OAuth2Client> {
+    const session = await this.getSession(account);
+    // JWT clients sign and refresh their own access tokens on demand
+    if (this.mode === 'service_account') return session.oauth2Client;
+    if (!session.tokens) {
+      const authUrl = await this.generateAuthUrl(session.name);
+      throw new CalendarError(
+        `Account "${session.name}" is not authenticated. Visit: ${authUrl}`,
+        ErrorCodes.AUTH_TOKEN_INVALID
+      );
     }
-    if (this.needsRefresh()) {
-      const { credentials } = await this.oauth2Client.refreshAccessToken();
-      await this.handleTokenRefresh(credentials);
+    if (this.needsRefresh(session.name)) {
+      const { credentials } = await session.oauth2Client.refreshAccessToken();
+      await this.handleTokenRefresh(session, credentials);
     }
-    return this.oauth2Client;
+    return session.oauth2Client;
   }
 
-  public generateAuthUrl(): string {
-    if (!this.oauth2Client) {
-      if (!this.credentials) throw new CalendarError('Credentials not loaded', ErrorCodes.AUTH_NOT_CONFIGURED);
-      this.createOAuth2Client();
-    }
-    return this.oauth2Client!.generateAuthUrl({ access_type: 'offline', scope: SCOPES, prompt: 'consent' });
+  /**
+   * Start (or reuse) a loopback authorization for an account and return its consent URL.
+   * The redirect is captured by a temporary local listener and exchanged automatically.
+   */
+  public async generateAuthUrl(account?: string): Promise<string> {
+    const session = await this.getSession(account);
+    this.assertOAuthMode('Interactive sign-in');
+    if (session.pendingAuth) return session.pendingAuth.authUrl;
+
+    const state = randomBytes(16).toString('hex');
+    const { codeVerifier, codeChallenge } = await session.oauth2Client.generateCodeVerifierAsync();
+    const listener = await startLoopbackListener({ state });
+    const authUrl = session.oauth2Client.generateAuthUrl({
+      access_type: 'offline',
+      scope: this.getConfig().scopes,
+      prompt: 'consent',
+      redirect_uri: listener.redirectUri,
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256' as CodeChallengeMethod,
+    });
+    const pending: PendingAuthorization = { authUrl, codeVerifier: codeVerifier!, listener };
+    session.pendingAuth = pending;
+
+    listener.code
+      .then((code) => this.exchangeCode(code, session.name))
+      .catch((error) => {
+        console.error(
+          `[google-calendar-mcp] Loopback authorization failed for account "${session.name}":`,
+          formatErrorForLog(error)
+        );
+      })
+      .finally(() => {
+        if (session.pendingAuth === pending) session.pendingAuth = null;
+      });
+
+    return authUrl;
   }
 
-  public async exchangeCode(code: string): Promise<void> {
-    if (!this.oauth2Client) {
-      throw new CalendarError('OAuth2 client not initialized', ErrorCodes.AUTH_NOT_CONFIGURED);
+  /**
+   * Exchange an authorization code for an account's tokens.
+   * Uses the PKCE verifier and redirect URI of the account's pending loopback flow, if any.
+   */
+  public async exchangeCode(code: string, account?: string): Promise<void> {
+    const session = await this.getSession(account);
+    this.assertOAuthMode('Authorization code exchange');
+    const pending = session.pendingAuth;
+    const { tokens } = await session.oauth2Client.getToken({
+      code,
+      codeVerifier: pending?.codeVerifier,
+      redirect_uri: pending?.listener.redirectUri,
+    });
+    if (!tokens.access_token) {
+      throw new CalendarError('No access token received', ErrorCodes.AUTH_TOKEN_INVALID);
     }
-    const { tokens } = await this.oauth2Client.getToken(code);
-    if (!tokens.access_token) throw new Error('No access token received');
     const oauthTokens: OAuthTokens = {
       access_token: tokens.access_token,
       refresh_token: tokens.refresh_token ?? undefined,
-      scope: tokens.scope || SCOPES.join(' '),
+      scope: tokens.scope || this.getConfig().scopes.join(' '),
       token_type: tokens.token_type || 'Bearer',
       expiry_date: tokens.expiry_date || Date.now() + 3600000,
     };
-    await this.saveTokens(oauthTokens);
-    this.oauth2Client.setCredentials(oauthTokens);
-  }
-
-  public getStatus(): {
-    isAuthenticated: boolean;
-    needsRefresh: boolean;
-    expiresAt?: string;
-    authUrl?: string;
-  } {
-    const status: {
-      isAuthenticated: boolean;
-      needsRefresh: boolean;
-      expiresAt?: string;
-      authUrl?: string;
-    } = {
-      isAuthenticated: this.isAuthenticated(),
-      needsRefresh: this.needsRefresh(),
+    await this.saveTokens(session, oauthTokens);
+    session.oauth2Client.setCredentials(oauthTokens);
+    if (pending) {
+      if (session.pendingAuth === pending) session.pendingAuth = null;
+      await pending.listener.close();
+    }
+  }
+
+  /**
+   * Status of a single account
+   */
+  public async getAccountStatus(account?: string, includeAuthUrl = true): Promise<AccountStatus> {
+    const session = await this.getSession(account);
+    const status: AccountStatus = {
+      account: session.name,
+      isDefault: session.name === this.defaultAccount,
+      subject: session.subject,
+      isAuthenticated: this.isAuthenticated(session.name),
+      needsRefresh: this.needsRefresh(session.name),
     };
-    if (this.tokens && this.tokens.expiry_date) {
-      status.expiresAt = new Date(this.tokens.expiry_date).toISOString();
+    const { access_token, expiry_date } = session.oauth2Client.credentials;
+    const expiryDate = session.tokens?.expiry_date ?? (access_token ? expiry_date : undefined);
+    if (expiryDate) {
+      status.expiresAt = new Date(expiryDate).toISOString();
     }
-    if (!status.isAuthenticated) {
-      try { status.authUrl = this.generateAuthUrl(); } catch {}
+    if (!status.isAuthenticated && includeAuthUrl) {
+      try { status.authUrl = await this.generateAuthUrl(session.name); } catch {}
     }
     return status;
   }
 
-  public async clearTokens(): Promise<void> {
-    this.tokens = null;
-    if (this.oauth2Client) this.oauth2Client.revokeCredentials();
-    try { const { unlink } = await import('node:fs/promises'); await unlink(TOKENS_PATH); } catch {}
+  /**
+   * Status of every known account
+   */
+  public async getStatus(includeAuthUrl = true): Promise<AuthStatus> {
+    if (!this.initialized) await this.initialize();
+    const accounts: AccountStatus[] = [];
+    for (const account of this.listAccounts()) {
+      accounts.push(await this.getAccountStatus(account, includeAuthUrl));
+    }
+    return {
+      mode: this.mode,
+      readOnly: this.getConfig().readOnly,
+      serviceAccountEmail: this.serviceAccount?.client_email,
+      defaultAccount: this.defaultAccount,
+      tokenStore: this.tokenStore?.kind,
+      accounts,
+    };
+  }
+
+  public async clearTokens(account?: string): Promise<void> {
+    const session = await this.getSession(account);
+    this.assertOAuthMode('Sign-out');
+    session.tokens = null;
+    if (session.pendingAuth) await session.pendingAuth.listener.close();
+    try { await session.oauth2Client.revokeCredentials(); } catch {}
+    session.oauth2Client.setCredentials({});
+    await this.getTokenStore().remove(session.tokensPath);
+    if (session.name !== this.defaultAccount) this.sessions.delete(session.name);
   }
 }
 
@@ -0,0 +1,651 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { google, type calendar_v3 } from 'googleapis';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ConflictPolicy } from '../types/calendar.types.js';
+import { ErrorCodes } from '../utils/error-handler.js';
+import { authService } from './auth.service.js';
+import { calendarService } from './calendar.service.js';
+import recorded from './fixtures/recurring-events.json';
+
+type GoogleEvent = calendar_v3.Schema$Event;
+
+interface ApiCall {
+  method: 'insert' | 'update' | 'patch' | 'delete' | 'move';
+  params: {
+    calendarId?: string;
+    eventId?: string;
+    destination?: string;
+    sendUpdates?: string;
+    requestBody?: GoogleEvent;
+  };
+}
+
+/**
+ * A calendar client that serves the recorded events and records every write.
+ * Writes are kept, with a new etag each, and deleted events stay as cancelled.
+ */
+function fakeCalendar(events: Record<string, GoogleEvent>) {
+  const stored = new Map(Object.values(events).map((event) => [event.id!, structuredClone(event)]));
+  const calls: ApiCall[] = [];
+  let version = 0;
+  const find = (eventId: string) => {
+    const event = stored.get(eventId);
+    if (!event) throw Object.assign(new Error('Not Found'), { code: 404 });
+    return structuredClone(event);
+  };
+  const save = (event: GoogleEvent) => {
+    const saved = { ...event, etag: `"${++version}"` };
+    stored.set(saved.id!, structuredClone(saved));
+    return { data: saved };
+  };
+  const events_ = {
+    get: async ({ eventId }: { eventId: string }) => ({ data: find(eventId) }),
+    list: async () => ({ data: { items: [] } }),
+    instances: async () => ({ data: { items: [] } }),
+    insert: async (params: ApiCall['params']) => {
+      calls.push({ method: 'insert', params });
+      return save({ ...params.requestBody, id: 'newseries' });
+    },
+    update: async (params: ApiCall['params']) => {
+      calls.push({ method: 'update', params });
+      return save({ ...params.requestBody, id: params.eventId });
+    },
+    patch: async (params: ApiCall['params']) => {
+      calls.push({ method: 'patch', params });
+      return save({ ...find(params.eventId!), ...params.requestBody });
+    },
+    delete: async (params: ApiCall['params']) => {
+      calls.push({ method: 'delete', params });
+      const event = stored.get(params.eventId!);
+      if (event) save({ ...event, status: 'cancelled' });
+      return { data: '' };
+    },
+    move: async (params: ApiCall['params']) => {
+      calls.push({ method: 'move', params });
+      return save({ ...find(params.eventId!), organizer: { email: params.destination } });
+    },
+  };
+  return { calls, client: { events: events_ } as unknown as calendar_v3.Calendar };
+}
+
+const instant = (time: calendar_v3.Schema$EventDateTime | undefined) => new Date(time!.dateTime!).toISOString();
+
+let dir: string;
+let api: ReturnType<typeof fakeCalendar>;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'gcal-service-'));
+  vi.stubEnv('XDG_CONFIG_HOME', dir);
+  vi.stubEnv('GOOGLE_CALENDAR_DATA_DIR', dir);
+  vi.spyOn(authService, 'getClient').mockResolvedValue({} as Awaited<ReturnType<typeof authService.getClient>>);
+});
+
+beforeEach(() => {
+  api = fakeCalendar(recorded);
+  vi.spyOn(google, 'calendar').mockReturnValue(api.client as ReturnType<typeof google.calendar>);
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('updateEvent scopes', () => {
+  it('changes only the given occurrence under scope "this"', async () => {
+    await calendarService.updateEvent({ eventId: 'weeklysync_20261104T010000Z', summary: 'Moved sync', scope: 'this' });
+
+    expect(api.calls).toHaveLength(1);
+    expect(api.calls[0]).toMatchObject({
+      method: 'update',
+      params: { eventId: 'weeklysync_20261104T010000Z', requestBody: { summary: 'Moved sync' } },
+    });
+  });
+
+  it('rejects the ID of a whole series under scope "this" or no scope', async () => {
+    for (const scope of ['this', undefined] as const) {
+      await expect(calendarService.updateEvent({ eventId: 'weeklysync', summary: 'Renamed', scope }))
+        .rejects.toMatchObject({ code: ErrorCodes.INVALID_INPUT });
+    }
+    expect(api.calls).toEqual([]);
+  });
+
+  it('still updates a single event without a scope', async () => {
+    await calendarService.updateEvent({ eventId: 'lunch', summary: 'Lunch with Sam and Kim' });
+    expect(api.calls.map((c) => [c.method, c.params.eventId])).toEqual([['update', 'lunch']]);
+  });
+
+  it('moves every occurrence by the same amount under scope "all"', async () => {
+    await calendarService.updateEvent({
+      eventId: 'weeklysync_20261104T010000Z',
+      startTime: '2026-11-04T11:00:00+09:00',
+      endTime: '2026-11-04T12:00:00+09:00',
+      timeZone: 'Asia/Seoul',
+      scope: 'all',
+    });
+
+    expect(api.calls).toHaveLength(1);
+    const [call] = api.calls;
+    expect(call).toMatchObject({ method: 'update', params: { eventId: 'weeklysync' } });
+    expect(instant(call!.params.requestBody!.start)).toBe('2026-10-21T02:00:00.000Z');
+    expect(instant(call!.params.requestBody!.end)).toBe('2026-10-21T03:00:00.000Z');
+    expect(call!.params.requestBody!.recurrence).toEqual(['RRULE:FREQ=WEEKLY;BYDAY=WE']);
+  });
+
+  it('splits a timed series under scope "following"', async () => {
+    await calendarService.updateEvent({ eventId: 'weeklysync_20261104T010000Z', summary: 'New sync', scope: 'following' });
+
+    expect(api.calls.map((c) => c.method)).toEqual(['insert', 'patch']);
+    const [insert, patch] = api.calls;
+    expect(insert!.params.requestBody).toMatchObject({
+      summary: 'New sync',
+      start: { dateTime: '2026-11-04T10:00:00+09:00', timeZone: 'Asia/Seoul' },
+      recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=WE'],
+    });
+    for (const field of ['id', 'iCalUID', 'recurringEventId', 'originalStartTime', 'sequence']) {
+      expect(insert!.params.requestBody).not.toHaveProperty(field);
+    }
+    expect(patch!.params).toMatchObject({
+      eventId: 'weeklysync',
+      requestBody: { recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=WE;UNTIL=20261104T005959Z'] },
+    });
+  });
+
+  it('carries the remaining COUNT into the new series under scope "following"', async () => {
+    await calendarService.updateEvent({ eventId: 'standup_20261030T160000Z', summary: 'Daily standup', scope: 'following' });
+
+    const [insert, patch] = api.calls;
+    expect(insert!.params.requestBody).toMatchObject({
+      summary: 'Daily standup',
+      recurrence: ['RRULE:FREQ=DAILY;COUNT=7'],
+      attendees: recorded.standup.attendees,
+    });
+    expect(patch!.params).toMatchObject({
+      eventId: 'standup',
+      requestBody: { recurrence: ['RRULE:FREQ=DAILY;UNTIL=20261030T155959Z'] },
+    });
+  });
+
+  it('counts the occurrences Google expands for a rule the preview cannot, under scope "following"', async () => {
+    // Ten daily occurrences at 09:00: Oct 27 and 28 were cancelled, Oct 29 ran, Oct 30 starts the new series
+    api = fakeCalendar({
+      ...recorded,
+      standup: { ...recorded.standup, recurrence: ['RRULE:FREQ=DAILY;BYHOUR=9;COUNT=10'] },
+    });
+    vi.spyOn(google, 'calendar').mockReturnValue(api.client as ReturnType<typeof google.calendar>);
+    const instances = vi.spyOn(api.client.events, 'instances').mockResolvedValueOnce({
+      data: {
+        items: ['2026-10-27', '2026-10-28', '2026-10-29'].map((day, i) => ({
+          id: `standup_${day}`,
+          status: i < 2 ? 'cancelled' : 'confirmed',
+          originalStartTime: { dateTime: `${day}T09:00:00-07:00`, timeZone: 'America/Los_Angeles' },
+        })),
+      },
+    } as never);
+
+    await calendarService.updateEvent({ eventId: 'standup_20261030T160000Z', summary: 'Daily standup', scope: 'following' });
+
+    expect(instances).toHaveBeenCalledWith(expect.objectContaining({
+      eventId: 'standup',
+      timeMax: '2026-10-30T16:00:00.000Z',
+      showDeleted: true,
+    }));
+    const [insert, patch] = api.calls;
+    expect(insert!.params.requestBody!.recurrence).toEqual(['RRULE:FREQ=DAILY;BYHOUR=9;COUNT=7']);
+    expect(patch!.params.requestBody!.recurrence)
+      .toEqual(['RRULE:FREQ=DAILY;BYHOUR=9;UNTIL=20261030T155959Z']);
+  });
+
+  it.each(['all', 'none'] as const)(
+    'removes the new series with sendUpdates %s when the original cannot be ended',
+    async (sendUpdates) => {
+      vi.spyOn(api.client.events, 'patch').mockRejectedValueOnce(new Error('Backend Error'));
+
+      await expect(calendarService.updateEvent({
+        eventId: 'standup_20261030T160000Z',
+        summary: 'Daily standup',
+        scope: 'following',
+        sendUpdates,
+      })).rejects.toThrow('Backend Error');
+
+      expect(api.calls.map((c) => [c.method, c.params.eventId, c.params.sendUpdates])).toEqual([
+        ['insert', undefined, sendUpdates],
+        ['delete', 'newseries', sendUpdates],
+      ]);
+    }
+  );
+
+  it('names the orphaned series when it cannot be removed either', async () => {
+    vi.spyOn(api.client.events, 'patch').mockRejectedValueOnce(new Error('Backend Error'));
+    vi.spyOn(api.client.events, 'delete').mockRejectedValueOnce(new Error('Rate Limit Exceeded'));
+
+    await expect(calendarService.updateEvent({
+      eventId: 'standup_20261030T160000Z',
+      summary: 'Daily standup',
+      scope: 'following',
+    })).rejects.toMatchObject({
+      code: ErrorCodes.API_ERROR,
+      message: expect.stringMatching(/Backend Error.*newseries.*Rate Limit Exceeded/),
+      details: { orphanedEventId: 'newseries' },
+    });
+  });
+});
+
+describe('deleteEvent scopes', () => {
+  it('deletes only the given occurrence under scope "this"', async () => {
+    await calendarService.deleteEvent({ eventId: 'offsite_20261106', scope: 'this' });
+    expect(api.calls.map((c) => [c.method, c.params.eventId])).toEqual([['delete', 'offsite_20261106']]);
+  });
+
+  it('rejects the ID of a whole series under scope "this" or no scope', async () => {
+    for (const scope of ['this', undefined] as const) {
+      await expect(calendarService.deleteEvent({ eventId: 'standup', scope }))
+        .rejects.toMatchObject({ code: ErrorCodes.INVALID_INPUT });
+    }
+    expect(api.calls).toEqual([]);
+  });
+
+  it('deletes the series an occurrence belongs to under scope "all"', async () => {
+    await calendarService.deleteEvent({ eventId: 'standup_20261030T160000Z', scope: 'all' });
+    expect(api.calls.map((c) => [c.method, c.params.eventId])).toEqual([['delete', 'standup']]);
+  });
+
+  it('ends an all-day series on the day before under scope "following"', async () => {
+    await calendarService.deleteEvent({ eventId: 'offsite_20261106', scope: 'following' });
+
+    expect(api.calls).toHaveLength(1);
+    expect(api.calls[0]).toMatchObject({
+      method: 'patch',
+      params: { eventId: 'offsite', requestBody: { recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=FR;UNTIL=20261105'] } },
+    });
+  });
+
+  it('ends a rule the preview cannot expand without counting its occurrences under scope "following"', async () => {
+    api = fakeCalendar({
+      ...recorded,
+      standup: { ...recorded.standup, recurrence: ['RRULE:FREQ=DAILY;BYHOUR=9;COUNT=10'] },
+    });
+    vi.spyOn(google, 'calendar').mockReturnValue(api.client as ReturnType<typeof google.calendar>);
+    const instances = vi.spyOn(api.client.events, 'instances');
+
+    await calendarService.deleteEvent({ eventId: 'standup_20261030T160000Z', scope: 'following' });
+
+    expect(instances).not.toHaveBeenCalled();
+    expect(api.calls[0]).toMatchObject({
+      method: 'patch',
+      params: { eventId: 'standup', requestBody: { recurrence: ['RRULE:FREQ=DAILY;BYHOUR=9;UNTIL=20261030T155959Z'] } },
+    });
+  });
+
+  it('replaces an existing UNTIL and keeps earlier exceptions under scope "following"', async () => {
+    await calendarService.deleteEvent({ eventId: 'review_20261110T140000Z', scope: 'following' });
+
+    expect(api.calls).toHaveLength(1);
+    expect(api.calls[0]).toMatchObject({
+      method: 'patch',
+      params: {
+        eventId: 'review',
+        requestBody: { recurrence: ['RRULE:FREQ=WEEKLY;UNTIL=20261110T135959Z', 'EXDATE:20261103T140000Z'] },
+      },
+    });
+  });
+});
+
+describe('sendUpdates', () => {
+  const writes = () => api.calls.map((c) => [c.method, c.params.sendUpdates]);
+
+  it('notifies every guest by default', async () => {
+    await calendarService.createEvent({ summary: 'Kickoff', startTime: '2026-10-26T10:00:00+09:00', duration: '1 hour' });
+    await calendarService.updateEvent({ eventId: 'lunch', summary: 'Lunch' });
+    await calendarService.deleteEvent({ eventId: 'lunch' });
+    await calendarService.respondToEvent({ eventId: 'planning', response: 'accepted' });
+    await calendarService.moveEvent({ eventId: 'standup', destinationCalendarId: 'team@group.calendar.google.com' });
+
+    expect(writes()).toEqual([
+      ['insert', 'all'], ['update', 'all'], ['delete', 'all'], ['patch', 'all'], ['move', 'all'],
+    ]);
+  });
+
+  describe.each(['all', 'externalOnly', 'none'] as const)('set to %s', (sendUpdates) => {
+    it('is passed to insert', async () => {
+      await calendarService.createEvent({
+        summary: 'Kickoff',
+        startTime: '2026-10-26T10:00:00+09:00',
+        duration: '1 hour',
+        attendees: ['alice@example.com'],
+        sendUpdates,
+      });
+      expect(writes()).toEqual([['insert', sendUpdates]]);
+    });
+
+    it('is passed to update', async () => {
+      await calendarService.updateEvent({ eventId: 'lunch', location: 'Cafeteria', sendUpdates });
+      expect(writes()).toEqual([['update', sendUpdates]]);
+    });
+
+    it('is passed to both writes of a "following" split', async () => {
+      await calendarService.updateEvent({
+        eventId: 'standup_20261030T160000Z',
+        summary: 'Daily standup',
+        scope: 'following',
+        sendUpdates,
+      });
+      expect(writes()).toEqual([['insert', sendUpdates], ['patch', sendUpdates]]);
+    });
+
+    it('is passed to delete', async () => {
+      await calendarService.deleteEvent({ eventId: 'standup_20261030T160000Z', scope: 'all', sendUpdates });
+      expect(writes()).toEqual([['delete', sendUpdates]]);
+    });
+
+    it('is passed to the patch that ends a series', async () => {
+      await calendarService.deleteEvent({ eventId: 'standup_20261030T160000Z', scope: 'following', sendUpdates });
+      expect(writes()).toEqual([['patch', sendUpdates]]);
+    });
+
+    it('is passed to move', async () => {
+      await calendarService.moveEvent({ eventId: 'lunch', destinationCalendarId: 'team@group.calendar.google.com', sendUpdates });
+      expect(writes()).toEqual([['move', sendUpdates]]);
+    });
+
+    it('is passed to the reply patch', async () => {
+      await calendarService.respondToEvent({ eventId: 'planning', response: 'declined', comment: 'Out that day', sendUpdates });
+
+      expect(writes()).toEqual([['patch', sendUpdates]]);
+      expect(api.calls[0]!.params.requestBody!.attendees).toEqual([
+        { email: 'bob@example.com', organizer: true, responseStatus: 'accepted' },
+        { email: 'me@example.com', self: true, responseStatus: 'declined', comment: 'Out that day' },
+      ]);
+    });
+  });
+});
+
+describe('moveEvent', () => {
+  it('moves the event to the destination calendar', async () => {
+    const { event } = await calendarService.moveEvent({
+      eventId: 'standup',
+      destinationCalendarId: 'team@group.calendar.google.com',
+      sendUpdates: 'externalOnly',
+    });
+
+    expect(api.calls).toEqual([{
+      method: 'move',
+      params: {
+        calendarId: 'primary',
+        eventId: 'standup',
+        destination: 'team@group.calendar.google.com',
+        sendUpdates: 'externalOnly',
+      },
+    }]);
+    expect(event.organizer?.email).toBe('team@group.calendar.google.com');
+  });
+
+  it('rejects one occurrence of a series', async () => {
+    await expect(calendarService.moveEvent({
+      eventId: 'standup_20261030T160000Z',
+      destinationCalendarId: 'team@group.calendar.google.com',
+    })).rejects.toMatchObject({ code: ErrorCodes.INVALID_INPUT, message: expect.stringContaining('standup') });
+    expect(api.calls).toEqual([]);
+  });
+
+  it('rejects a move to the same calendar', async () => {
+    await expect(calendarService.moveEvent({ eventId: 'lunch', destinationCalendarId: 'primary' }))
+      .rejects.toMatchObject({ code: ErrorCodes.INVALID_INPUT });
+    expect(api.calls).toEqual([]);
+  });
+
+  it('sends nothing in a dry run', async () => {
+    const preview = await calendarService.previewMoveEvent({
+      eventId: 'lunch',
+      destinationCalendarId: 'team@group.calendar.google.com',
+      sendUpdates: 'none',
+    });
+
+    expect(api.calls).toEqual([]);
+    expect(preview).toMatchObject({
+      action: 'move',
+      calendarId: 'team@group.calendar.google.com',
+      requests: [{
+        method: 'move',
+        calendarId: 'primary',
+        eventId: 'lunch',
+        destination: 'team@group.calendar.google.com',
+        sendUpdates: 'none',
+      }],
+    });
+  });
+});
+
+describe('previewRecurrence', () => {
+  it('lists the occurrences of a rule it can expand', async () => {
+    const preview = await calendarService.previewRecurrence({
+      startTime: '2026-10-21T10:00:00+09:00',
+      recurrence: 'RRULE:FREQ=WEEKLY;BYDAY=WE;COUNT=2',
+      timeZone: 'Asia/Seoul',
+    });
+    expect(preview).toMatchObject({
+      occurrences: [{ start: '2026-10-21T10:00:00+09:00' }, { start: '2026-10-28T10:00:00+09:00' }],
+      unsupported: [],
+    });
+  });
+
+  it('keeps the rule and the start, without occurrences, for parts it cannot expand', async () => {
+    const preview = await calendarService.previewRecurrence({
+      startTime: '2026-10-21T10:00:00+09:00',
+      recurrence: 'RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1',
+      timeZone: 'Asia/Seoul',
+    });
+    expect(preview).toEqual({
+      rules: ['RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1'],
+      timeZone: 'Asia/Seoul',
+      isAllDay: false,
+      occurrences: [],
+      unsupported: ['BYSETPOS'],
+    });
+  });
+});
+
+describe('undoChange', () => {
+  const stored = async (eventId: string) => (await api.client.events.get({ calendarId: 'primary', eventId })).data;
+  const writes = () => api.calls.map((c) => [c.method, c.params.eventId, c.params.sendUpdates]);
+
+  it('deletes a created event, notifying guests by default', async () => {
+    const { changeId } = await calendarService.createEvent({
+      summary: 'Kickoff',
+      startTime: '2026-10-26T10:00:00+09:00',
+      duration: '1 hour',
+    });
+    expect(changeId).toMatch(/^[0-9a-f]{8}$/);
+
+    const result = await calendarService.undoChange({ changeId });
+
+    expect(writes()).toEqual([['insert', undefined, 'all'], ['delete', 'newseries', 'all']]);
+    expect(result).toMatchObject({ change: { id: changeId, action: 'create', undoneBy: result.undoId }, removed: ['newseries'] });
+    expect((await stored('newseries')).status).toBe('cancelled');
+  });
+
+  it('restores the fields an update changed', async () => {
+    const { changeId } = await calendarService.updateEvent({ eventId: 'lunch', summary: 'Lunch with Kim', location: 'Cafeteria' });
+
+    await calendarService.undoChange({ changeId, sendUpdates: 'none' });
+
+    expect(writes()).toEqual([['update', 'lunch', 'all'], ['update', 'lunch', 'none']]);
+    expect(await stored('lunch')).toMatchObject({ summary: 'Lunch with Sam', status: 'confirmed' });
+    expect(await stored('lunch')).not.toHaveProperty('location');
+  });
+
+  it('brings a deleted event back under its own ID', async () => {
+    const { changeId } = await calendarService.deleteEvent({ eventId: 'lunch' });
+    expect((await stored('lunch')).status).toBe('cancelled');
+
+    const result = await calendarService.undoChange({ changeId });
+
+    expect(writes()).toEqual([['delete', 'lunch', 'all'], ['update', 'lunch', 'all']]);
+    expect(await stored('lunch')).toMatchObject({ summary: 'Lunch with Sam', status: 'confirmed' });
+    expect(result.restored.map((event) => event.id)).toEqual(['lunch']);
+  });
+
+  it('moves a moved event back to the calendar it came from', async () => {
+    const { changeId } = await calendarService.moveEvent({ eventId: 'lunch', destinationCalendarId: 'team@group.calendar.google.com' });
+
+    await calendarService.undoChange({ changeId });
+
+    expect(api.calls.map((c) => [c.method, c.params.calendarId, c.params.destination])).toEqual([
+      ['move', 'primary', 'team@group.calendar.google.com'],
+      ['move', 'team@group.calendar.google.com', 'primary'],
+    ]);
+    expect((await stored('lunch')).organizer).toEqual({ email: 'primary' });
+  });
+
+  it('leaves an event edited since the change alone unless forced', async () => {
+    const { changeId } = await calendarService.updateEvent({ eventId: 'lunch', summary: 'Lunch with Kim' });
+    await api.client.events.update({ calendarId: 'primary', eventId: 'lunch', requestBody: { ...(await stored('lunch')), summary: 'Lunch with Lee' } });
+
+    await expect(calendarService.undoChange({ changeId })).rejects.toMatchObject({ code: ErrorCodes.CHANGE_CONFLICT });
+    expect(api.calls).toHaveLength(2);
+
+    await calendarService.undoChange({ changeId, force: true });
+    expect((await stored('lunch')).summary).toBe('Lunch with Sam');
+  });
+
+  it('refuses to undo the same change twice', async () => {
+    const { changeId } = await calendarService.updateEvent({ eventId: 'lunch', summary: 'Lunch with Kim' });
+    const { undoId } = await calendarService.undoChange({ changeId });
+
+    await expect(calendarService.undoChange({ changeId })).rejects.toThrow(`already undone by ${undoId}`);
+  });
+});
+
+describe('conflict policies', () => {
+  // Monday 2026-10-26: design review 10:00-11:00 and a wrap-up 17:00-18:00 KST
+  const busy: GoogleEvent[] = [
+    { id: 'review1', summary: 'Design review', start: { dateTime: '2026-10-26T10:00:00+09:00' }, end: { dateTime: '2026-10-26T11:00:00+09:00' } },
+    { id: 'wrapup1', summary: 'Wrap-up', start: { dateTime: '2026-10-26T17:00:00+09:00' }, end: { dateTime: '2026-10-26T18:00:00+09:00' } },
+  ];
+  const create = (startTime: string, conflictPolicy: ConflictPolicy, duration = '1 hour') =>
+    calendarService.createEvent({ summary: 'Kickoff', startTime, duration, timeZone: 'Asia/Seoul', conflictPolicy });
+
+  beforeEach(() => {
+    vi.spyOn(api.client.events, 'list').mockResolvedValue({ data: { items: busy } } as never);
+  });
+
+  it('ask saves nothing and returns the conflicts', async () => {
+    const result = await create('2026-10-26T10:30:00+09:00', 'ask');
+
+    expect(api.calls).toEqual([]);
+    expect(result.saved).toBe(false);
+    expect(result.conflictCheck?.conflicts.map((c) => c.eventId)).toEqual(['review1']);
+  });
+
+  it('ask saves a time without conflicts', async () => {
+    const result = await create('2026-10-26T14:00:00+09:00', 'ask');
+    expect(result).toMatchObject({ saved: true, conflictCheck: { policy: 'ask', conflicts: [] } });
+    expect(api.calls.map((c) => c.method)).toEqual(['insert']);
+  });
+
+  it('allow saves without looking for conflicts', async () => {
+    const result = await create('2026-10-26T10:30:00+09:00', 'allow');
+
+    expect(api.client.events.list).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ saved: true, conflictCheck: { policy: 'allow', conflicts: [] } });
+    expect(instant(api.calls[0]!.params.requestBody!.start)).toBe('2026-10-26T01:30:00.000Z');
+  });
+
+  it('warn saves at the requested time and lists the conflicts', async () => {
+    const result = await create('2026-10-26T10:30:00+09:00', 'warn');
+
+    expect(result.saved).toBe(true);
+    expect(result.conflictCheck?.conflicts.map((c) => c.eventId)).toEqual(['review1']);
+    expect(instant(api.calls[0]!.params.requestBody!.start)).toBe('2026-10-26T01:30:00.000Z');
+  });
+
+  it('reject fails and saves nothing', async () => {
+    await expect(create('2026-10-26T10:30:00+09:00', 'reject')).rejects.toMatchObject({
+      code: ErrorCodes.EVENT_CONFLICT,
+      message: expect.stringContaining('Design review'),
+    });
+    expect(api.calls).toEqual([]);
+  });
+
+  it('shift moves the event to the next free slot', async () => {
+    const result = await create('2026-10-26T10:30:00+09:00', 'shift');
+
+    const { start, end } = api.calls[0]!.params.requestBody!;
+    expect([instant(start), instant(end)]).toEqual(['2026-10-26T02:00:00.000Z', '2026-10-26T03:00:00.000Z']);
+    expect(result.conflictCheck?.shiftedFrom?.start.toISOString()).toBe('2026-10-26T01:30:00.000Z');
+  });
+
+  it('shift stays in working hours, moving past the evening to the next morning', async () => {
+    await create('2026-10-26T17:00:00+09:00', 'shift');
+    expect(instant(api.calls[0]!.params.requestBody!.start)).toBe('2026-10-27T00:00:00.000Z');
+  });
+
+  it('shift skips the weekend', async () => {
+    vi.mocked(api.client.events.list).mockResolvedValue({
+      data: { items: [{ id: 'late1', start: { dateTime: '2026-10-23T17:00:00+09:00' }, end: { dateTime: '2026-10-23T18:00:00+09:00' } }] },
+    } as never);
+
+    await create('2026-10-23T17:30:00+09:00', 'shift');
+    expect(instant(api.calls[0]!.params.requestBody!.start)).toBe('2026-10-26T00:00:00.000Z');
+  });
+
+  it('shift fails when the event cannot fit in a working day', async () => {
+    await expect(create('2026-10-26T10:30:00+09:00', 'shift', '10 hours')).rejects.toMatchObject({
+      code: ErrorCodes.EVENT_CONFLICT,
+      message: expect.stringContaining('working hours'),
+    });
+    expect(api.calls).toEqual([]);
+  });
+
+  it('ignores the event being updated', async () => {
+    vi.mocked(api.client.events.list).mockResolvedValue({
+      data: { items: [...busy, { ...recorded.lunch, start: { dateTime: '2026-10-26T12:30:00+09:00' }, end: { dateTime: '2026-10-26T13:30:00+09:00' } }] },
+    } as never);
+
+    const result = await calendarService.updateEvent({
+      eventId: 'lunch',
+      startTime: '2026-10-26T12:00:00+09:00',
+      endTime: '2026-10-26T13:00:00+09:00',
+      timeZone: 'Asia/Seoul',
+      conflictPolicy: 'reject',
+    });
+    expect(result).toMatchObject({ saved: true, conflictCheck: { conflicts: [] } });
+    expect(api.calls.map((c) => [c.method, c.params.eventId])).toEqual([['update', 'lunch']]);
+  });
+});
+
+describe('conferences', () => {
+  it('reports a conference a dry run would request as pending', async () => {
+    const preview = await calendarService.previewCreateEvent({
+      summary: 'Kickoff',
+      startTime: '2026-10-26T14:00:00+09:00',
+      addConference: true,
+      conflictPolicy: 'allow',
+    });
+
+    expect(api.calls).toEqual([]);
+    expect(preview.requests[0]!.requestBody!.conferenceData?.createRequest).not.toHaveProperty('status');
+    expect(preview.event.conference).toMatchObject({ status: 'pending', entryPoints: [] });
+  });
+
+  it('reports the status Google gives a sent request', async () => {
+    vi.spyOn(api.client.events, 'insert').mockImplementationOnce(async (params) => ({
+      data: {
+        ...(params as ApiCall['params']).requestBody,
+        id: 'kickoff',
+        conferenceData: { createRequest: { status: { statusCode: 'failure' } } },
+      },
+    }) as never);
+
+    const { event } = await calendarService.createEvent({
+      summary: 'Kickoff',
+      startTime: '2026-10-26T14:00:00+09:00',
+      addConference: true,
+      conflictPolicy: 'allow',
+    });
+
+    expect(event.conference?.status).toBe('failure');
+  });
+});
@@ -3,42 +3,277 @@
  * Google Calendar API wrapper
  */
 
+import { randomUUID } from 'node:crypto';
 import { google, calendar_v3 } from 'googleapis';
+import { formatInTimeZone } from 'date-fns-tz';
 import { authService } from './auth.service.js';
+import { appendJournalEntry, readJournal } from './change-journal.js';
 import type {
+  AclScopeType,
+  AttendeeResponseStatus,
+  EventType,
+  CalendarAccessRole,
+  CalendarAclRule,
+  ChangeEffect,
+  ChangeJournalEntry,
+  ChangeSummary,
+  ConflictCalendars,
+  ConflictCheck,
+  ConflictPolicy,
+  CreateCalendarInput,
+  FreeBusyCalendar,
+  FreeBusyInput,
+  FindFreeSlotsInput,
+  FindFreeSlotsResult,
+  GuestPermissions,
+  RevokeCalendarShareInput,
+  ShareCalendarInput,
+  UpdateCalendarInput,
   CalendarEvent,
+  CalendarInfo,
+  ListCalendarsInput,
+  ConferenceEntryPoint,
+  EventConference,
   CreateEventInput,
+  DateLocale,
   UpdateEventInput,
   ListEventsInput,
   DeleteEventInput,
+  DeleteEventResult,
+  EventChangePreview,
+  EventConflict,
+  EventResponseChange,
+  EventFieldChange,
+  EventSaveResult,
+  EventWrite,
   ListEventsResponse,
+  MoveEventInput,
+  MoveEventResult,
+  ParsedDateRange,
+  ParsedDateTime,
+  PreviewRecurrenceInput,
+  RecurrenceOccurrence,
+  RecurrencePreview,
+  RecurrenceScope,
+  RespondToEventInput,
+  RespondToEventResult,
+  RsvpResponse,
+  SendUpdates,
+  SkippedEvent,
+  TimeInterval,
+  UndoChangeInput,
+  UndoChangeResult,
 } from '../types/calendar.types.js';
 import { CalendarError, ErrorCodes } from '../utils/error-handler.js';
+import { assertWritable, loadConfig } from '../utils/config.js';
+import { findFreeSlots as computeFreeSlots, nextFreeInterval, workingIntervals } from '../utils/free-slots.js';
+import { editAttendees, hasAttendeeChanges } from '../utils/attendees.js';
+import {
+  endRecurrence,
+  expandRecurrence,
+  needsOccurrenceCount,
+  parseRecurrence,
+  splitRecurrence,
+  unexpandableParts,
+} from '../utils/recurrence.js';
 import {
   parseDateTime,
+  parseDateRange,
+  parseDuration,
   calculateEndTime,
   formatForCalendar,
+  formatForDisplay,
   getDefaultTimezone,
   normalizeTimezone,
+  parseISODate,
+  startOfNextDay,
+  zonedTimeToInstant,
 } from '../utils/date-parser.js';
 
 const DEFAULT_CALENDAR_ID = 'primary';
 
+/**
+ * Page size and total cap when list_events follows every page
+ */
+const FETCH_ALL_PAGE_SIZE = 250;
+const FETCH_ALL_MAX_EVENTS = 2500;
+
+/**
+ * How far past the requested start the shift conflict policy looks for a free slot
+ */
+const SHIFT_SEARCH_DAYS = 14;
+
+/**
+ * Working hours for find_free_slots when the call names none, and for the shift conflict policy
+ */
+const DEFAULT_WORKING_HOURS = { start: '09:00', end: '18:00', days: [1, 2, 3, 4, 5] };
+
+/**
+ * How often, and how far apart, a pending conference request is re-read after a write
+ */
+const CONFERENCE_POLL_ATTEMPTS = 5;
+const CONFERENCE_POLL_MS = 1000;
+
+/**
+ * Guests are told about creates, updates, deletes and replies unless a call says otherwise
+ */
+const DEFAULT_SEND_UPDATES: SendUpdates = 'all';
+
 // Type aliases for Google Calendar API types
 type GoogleEvent = calendar_v3.Schema$Event;
 type ListEventsParams = calendar_v3.Params$Resource$Events$List;
+type GoogleCalendarListEntry = calendar_v3.Schema$CalendarListEntry;
+type EventDateTime = calendar_v3.Schema$EventDateTime;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Values that are already calendar IDs rather than display names
+ */
+const CALENDAR_ID_PATTERN = /^primary$|@/;
 
-async function getCalendarClient(): Promise<calendar_v3.Calendar> {
-  const auth = await authService.getClient();
+async function getCalendarClient(account?: string): Promise<calendar_v3.Calendar> {
+  const auth = await authService.getClient(account);
   return google.calendar({ version: 'v3', auth });
 }
 
+function toCalendarInfo(entry: GoogleCalendarListEntry): CalendarInfo {
+  return {
+    id: entry.id || '',
+    summary: entry.summaryOverride || entry.summary || '',
+    summaryOverride: entry.summaryOverride ?? undefined,
+    description: entry.description ?? undefined,
+    timeZone: entry.timeZone ?? undefined,
+    accessRole: (entry.accessRole ?? undefined) as CalendarAccessRole | undefined,
+    backgroundColor: entry.backgroundColor ?? undefined,
+    foregroundColor: entry.foregroundColor ?? undefined,
+    colorId: entry.colorId ?? undefined,
+    primary: entry.primary || false,
+    hidden: entry.hidden || false,
+    selected: entry.selected || false,
+  };
+}
+
+async function fetchCalendarList(
+  calendar: calendar_v3.Calendar,
+  input: ListCalendarsInput = {}
+): Promise<CalendarInfo[]> {
+  const calendars: CalendarInfo[] = [];
+  let pageToken: string | undefined;
+  do {
+    const response = await calendar.calendarList.list({
+      showHidden: input.showHidden,
+      minAccessRole: input.minAccessRole,
+      pageToken,
+    });
+    calendars.push(...(response.data.items || []).map(toCalendarInfo));
+    pageToken = response.data.nextPageToken ?? undefined;
+  } while (pageToken);
+  return calendars;
+}
+
+/**
+ * Resolve a calendar ID or display name to a calendar ID.
+ * IDs ("primary" or anything containing "@") pass through; names are matched case-insensitively.
+ */
+async function resolveCalendarId(
+  calendar: calendar_v3.Calendar,
+  calendarIdOrName?: string
+): Promise<string> {
+  const value = calendarIdOrName?.trim();
+  if (!value) return DEFAULT_CALENDAR_ID;
+  if (CALENDAR_ID_PATTERN.test(value)) return value;
+
+  const calendars = await fetchCalendarList(calendar, { showHidden: true });
+  const wanted = value.toLowerCase();
+  const byId = calendars.find((c) => c.id === value);
+  if (byId) return byId.id;
+
+  const matches = calendars.filter(
+    (c) => c.summary.toLowerCase() === wanted || c.summaryOverride?.toLowerCase() === wanted
+  );
+  if (matches.length === 1) return matches[0]!.id;
+  if (matches.length > 1) {
+    throw new CalendarError(
+      `Calendar name "${value}" is ambiguous; use one of these IDs: ${matches.map((c) => c.id).join(', ')}`,
+      ErrorCodes.INVALID_INPUT
+    );
+  }
+  throw new CalendarError(
+    `Calendar not found: "${value}". Use list_calendars to see available calendars`,
+    ErrorCodes.CALENDAR_NOT_FOUND
+  );
+}
+
+function toConference(event: GoogleEvent): EventConference | undefined {
+  const data = event.conferenceData;
+  if (!data && !event.hangoutLink) return undefined;
+
+  const entryPoints: ConferenceEntryPoint[] = (data?.entryPoints || [])
+    .filter((e) => e.uri)
+    .map((e) => ({
+      entryPointType: (e.entryPointType || 'more') as ConferenceEntryPoint['entryPointType'],
+      uri: e.uri || '',
+      label: e.label ?? undefined,
+      pin: e.pin ?? e.accessCode ?? e.passcode ?? undefined,
+      regionCode: e.regionCode ?? undefined,
+    }));
+
+  return {
+    conferenceId: data?.conferenceId ?? undefined,
+    solution: data?.conferenceSolution?.name ?? undefined,
+    joinUrl: entryPoints.find((e) => e.entryPointType === 'video')?.uri ?? event.hangoutLink ?? undefined,
+    entryPoints,
+    // A request not yet sent (dry runs) has no status from Google; once sent it starts out pending
+    status: (data?.createRequest
+      ? data.createRequest.status?.statusCode ?? 'pending'
+      : undefined) as EventConference['status'],
+  };
+}
+
+/**
+ * Request a new Google Meet conference for an event
+ */
+function conferenceRequest(): calendar_v3.Schema$ConferenceData {
+  return {
+    createRequest: {
+      requestId: randomUUID(),
+      conferenceSolutionKey: { type: 'hangoutsMeet' },
+    },
+  };
+}
+
+/**
+ * Google may finish creating a conference after the write returns; re-read the event until
+ * the join details are there
+ */
+async function awaitConference(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  event: GoogleEvent
+): Promise<GoogleEvent> {
+  let current = event;
+  for (
+    let attempt = 0;
+    attempt < CONFERENCE_POLL_ATTEMPTS && current.conferenceData?.createRequest?.status?.statusCode === 'pending';
+    attempt++
+  ) {
+    await new Promise((resolve) => setTimeout(resolve, CONFERENCE_POLL_MS));
+    current = (await calendar.events.get({ calendarId, eventId: current.id! })).data;
+  }
+  return current;
+}
+
 function toCalendarEvent(event: GoogleEvent): CalendarEvent {
   const attendees = event.attendees?.map((a) => ({
     email: a.email || '',
     displayName: a.displayName ?? undefined,
-    responseStatus: a.responseStatus as 'needsAction' | 'declined' | 'tentative' | 'accepted' | undefined,
+    responseStatus: a.responseStatus as AttendeeResponseStatus | undefined,
     optional: a.optional ?? undefined,
+    organizer: a.organizer ?? undefined,
+    self: a.self ?? undefined,
+    resource: a.resource ?? undefined,
+    comment: a.comment ?? undefined,
   }));
   
   return {
@@ -78,36 +313,70 @@ function toCalendarEvent(event: GoogleEvent): CalendarEvent {
       : undefined,
     recurrence: event.recurrence ?? undefined,
     recurringEventId: event.recurringEventId ?? undefined,
+    conference: toConference(event),
+    guestsCanModify: event.guestsCanModify ?? undefined,
+    guestsCanInviteOthers: event.guestsCanInviteOthers ?? undefined,
+    guestsCanSeeOtherGuests: event.guestsCanSeeOtherGuests ?? undefined,
+    eventType: (event.eventType as EventType | null) ?? undefined,
+    extendedProperties: event.extendedProperties
+      ? {
+          private: event.extendedProperties.private ?? undefined,
+          shared: event.extendedProperties.shared ?? undefined,
+        }
+      : undefined,
   };
 }
 
-async function listEvents(input: ListEventsInput): Promise<ListEventsResponse> {
-  const calendar = await getCalendarClient();
-  const calendarId = input.calendarId || DEFAULT_CALENDAR_ID;
-  const timezone = normalizeTimezone(input.timeZone) || getDefaultTimezone();
+/**
+ * The signed-in user's response to an event; organizers of events without guests count as accepted
+ */
+function ownResponseStatus(event: GoogleEvent): AttendeeResponseStatus | undefined {
+  const self = event.attendees?.find((a) => a.self);
+  if (self) return (self.responseStatus as AttendeeResponseStatus | null) ?? undefined;
+  return event.organizer?.self ? 'accepted' : undefined;
+}
+
+function toExtendedPropertyFilter(properties?: Record<string, string>): string[] | undefined {
+  if (!properties) return undefined;
+  const entries = Object.entries(properties).map(([key, value]) => `${key}=${value}`);
+  return entries.length > 0 ? entries : undefined;
+}
 
+/**
+ * API bounds for timeMin/timeMax phrases. A range phrase alone ("next week") covers its whole
+ * span; with both bounds, the span runs from the start of timeMin to the end of timeMax.
+ */
+function resolveTimeRange(
+  minText: string | undefined,
+  maxText: string | undefined,
+  rangeOptions: { timeZone: string; weekStartsOn: number; locale: DateLocale }
+): { timeMin?: string; timeMax?: string } {
   let timeMin: string | undefined;
   let timeMax: string | undefined;
-
-  if (input.timeMin) {
-    try {
-      const parsed = parseDateTime(input.timeMin, undefined, timezone);
-      timeMin = parsed.dateTime.toISOString();
-    } catch {
-      // If parsing fails, try using as-is (might be ISO string)
-      timeMin = input.timeMin;
-    }
+  let minRange: ParsedDateRange | undefined;
+  if (minText) {
+    minRange = parseDateRange(minText, rangeOptions);
+    timeMin = minRange.start.toISOString();
+    if (!maxText && !minRange.isInstant) timeMax = minRange.end.toISOString();
   }
-
-  if (input.timeMax) {
-    try {
-      const parsed = parseDateTime(input.timeMax, undefined, timezone);
-      timeMax = parsed.dateTime.toISOString();
-    } catch {
-      // If parsing fails, try using as-is (might be ISO string)
-      timeMax = input.timeMax;
-    }
+  if (maxText) {
+    // Read the end relative to the start so "Monday" to "Friday" is the Friday after
+    timeMax = parseDateRange(maxText, { ...rangeOptions, referenceDate: minRange?.start })
+      .end.toISOString();
+  }
+  if (timeMin && timeMax && timeMax <= timeMin) {
+    throw new CalendarError('timeMax must be after timeMin', ErrorCodes.INVALID_DATE);
   }
+  return { timeMin, timeMax };
+}
+
+async function listEvents(input: ListEventsInput): Promise<ListEventsResponse> {
+  const calendar = await getCalendarClient(input.account);
+  const calendarId = await resolveCalendarId(calendar, input.calendarId);
+  const timezone = normalizeTimezone(input.timeZone) || getDefaultTimezone();
+  const config = await loadConfig();
+  const rangeOptions = { timeZone: timezone, weekStartsOn: config.weekStartsOn, locale: input.locale ?? config.locale };
+  let { timeMin, timeMax } = resolveTimeRange(input.timeMin, input.timeMax, rangeOptions);
 
   // Default to next 7 days if no time range specified
   if (!timeMin && !timeMax) {
@@ -117,57 +386,354 @@ async function listEvents(input: ListEventsInput): Promise<ListEventsResponse> {
     timeMax = nextWeek.toISOString();
   }
 
+  const singleEvents = input.singleEvents ?? true;
+  const orderBy = input.orderBy ?? (singleEvents ? 'startTime' : undefined);
+  if (orderBy === 'startTime' && !singleEvents) {
+    throw new CalendarError(
+      'orderBy "startTime" requires singleEvents. Use orderBy "updated" to list recurring series',
+      ErrorCodes.INVALID_INPUT
+    );
+  }
+
   const params: ListEventsParams = {
     calendarId,
     timeMin,
     timeMax,
-    maxResults: input.maxResults || 10,
-    singleEvents: true,
-    orderBy: 'startTime',
+    maxResults: input.fetchAll ? FETCH_ALL_PAGE_SIZE : input.maxResults || 10,
+    singleEvents,
+    orderBy,
+    q: input.query || undefined,
+    showDeleted: input.showDeleted,
+    timeZone: timezone,
+    eventTypes: input.eventTypes,
+    updatedMin: input.updatedMin ? parseDateRange(input.updatedMin, rangeOptions).start.toISOString() : undefined,
+    privateExtendedProperty: toExtendedPropertyFilter(input.privateExtendedProperties),
+    sharedExtendedProperty: toExtendedPropertyFilter(input.sharedExtendedProperties),
   };
 
-  const response = await calendar.events.list(params);
-  const events = response.data.items || [];
+  const events: GoogleEvent[] = [];
+  let pageToken = input.pageToken;
+  do {
+    const response = await calendar.events.list({ ...params, pageToken });
+    events.push(...(response.data.items || []));
+    pageToken = response.data.nextPageToken ?? undefined;
+  } while (input.fetchAll && pageToken && events.length < FETCH_ALL_MAX_EVENTS);
+
+  // The API cannot filter by guest or by the user's reply, so these apply to each fetched page
+  const attendee = input.attendee?.toLowerCase();
+  const matching = events.filter((event) =>
+    (!attendee
+      || event.attendees?.some((a) => a.email?.toLowerCase() === attendee)
+      || event.organizer?.email?.toLowerCase() === attendee)
+    && (!input.responseStatus || ownResponseStatus(event) === input.responseStatus));
 
   return {
-    events: events.map(toCalendarEvent),
-    nextPageToken: response.data.nextPageToken ?? undefined,
+    events: matching.map(toCalendarEvent),
+    nextPageToken: pageToken,
+    truncated: pageToken !== undefined,
+    timeZone: timezone,
   };
 }
 
-async function createEvent(input: CreateEventInput): Promise<CalendarEvent> {
-  const calendar = await getCalendarClient();
-  const calendarId = input.calendarId || DEFAULT_CALENDAR_ID;
+/**
+ * Translate recurrence input for an event. A time named in the phrase ("weekdays at 9am")
+ * sets the time of day, and the start moves to the first date the rule matches so the
+ * series does not begin with a stray occurrence. Rules the preview cannot expand keep the start.
+ */
+function applyRecurrence(
+  recurrence: string | string[],
+  start: ParsedDateTime,
+  timeZone: string
+): { rules: string[]; start: Date; isAllDay: boolean } {
+  const parsed = parseRecurrence(recurrence, start.dateTime, timeZone, start.isAllDay);
+  let startDate = start.dateTime;
+  let isAllDay = start.isAllDay;
+  if (parsed.timeOfDay) {
+    const day = formatInTimeZone(startDate, timeZone, 'yyyy-MM-dd');
+    startDate = zonedTimeToInstant(`${day}T${parsed.timeOfDay}:00`, timeZone);
+    isAllDay = false;
+  }
+
+  const hasRule = parsed.rules.some((line) => /^RRULE[:;]/i.test(line))
+    && unexpandableParts(parsed.rules).length === 0;
+  const [first] = hasRule
+    ? expandRecurrence(parsed.rules, startDate, timeZone, { count: 1, isAllDay, includeStart: false })
+    : [];
+  if (first) {
+    startDate = isAllDay ? zonedTimeToInstant(`${first.start}T00:00:00`, timeZone) : parseISODate(first.start);
+  }
+  return { rules: parsed.rules, start: startDate, isAllDay };
+}
+
+/**
+ * Date locale for a call: the one it names, else the configured default
+ */
+async function resolveLocale(locale?: DateLocale): Promise<DateLocale> {
+  return locale ?? (await loadConfig()).locale;
+}
+
+/**
+ * Event writes for one call. Updates, patches, deletes and moves take the event as currently stored,
+ * and each saved write is kept as an effect for the change journal. A dry run records each
+ * request instead of sending it and answers with the event as it would be saved.
+ */
+function eventWriter(calendar: calendar_v3.Calendar, dryRun: boolean) {
+  const requests: EventWrite[] = [];
+  const effects: ChangeEffect[] = [];
+  return {
+    requests,
+    effects,
+    async insert(calendarId: string, requestBody: GoogleEvent, sendUpdates: SendUpdates): Promise<GoogleEvent> {
+      requests.push({ method: 'insert', calendarId, sendUpdates, requestBody });
+      if (dryRun) return requestBody;
+      const response = await calendar.events.insert({ calendarId, requestBody, sendUpdates, conferenceDataVersion: 1 });
+      if (!response.data) {
+        throw new CalendarError('Failed to create event', ErrorCodes.API_ERROR);
+      }
+      const created = await awaitConference(calendar, calendarId, response.data);
+      effects.push({ calendarId, eventId: created.id!, after: created });
+      return created;
+    },
+    async update(calendarId: string, current: GoogleEvent, requestBody: GoogleEvent, sendUpdates: SendUpdates): Promise<GoogleEvent> {
+      const eventId = current.id!;
+      requests.push({ method: 'update', calendarId, eventId, sendUpdates, requestBody });
+      if (dryRun) return requestBody;
+      const response = await calendar.events.update({ calendarId, eventId, requestBody, sendUpdates, conferenceDataVersion: 1 });
+      if (!response.data) {
+        throw new CalendarError('Failed to update event', ErrorCodes.API_ERROR);
+      }
+      const updated = await awaitConference(calendar, calendarId, response.data);
+      effects.push({ calendarId, eventId, before: current, after: updated });
+      return updated;
+    },
+    async patch(calendarId: string, current: GoogleEvent, requestBody: GoogleEvent, sendUpdates: SendUpdates): Promise<GoogleEvent> {
+      const eventId = current.id!;
+      requests.push({ method: 'patch', calendarId, eventId, sendUpdates, requestBody });
+      if (dryRun) return { ...current, ...requestBody };
+      const response = await calendar.events.patch({ calendarId, eventId, requestBody, sendUpdates, conferenceDataVersion: 1 });
+      effects.push({ calendarId, eventId, before: current, after: response.data });
+      return response.data;
+    },
+    async delete(calendarId: string, current: GoogleEvent, sendUpdates: SendUpdates): Promise<void> {
+      const eventId = current.id!;
+      requests.push({ method: 'delete', calendarId, eventId, sendUpdates });
+      if (dryRun) return;
+      await calendar.events.delete({ calendarId, eventId, sendUpdates });
+      effects.push({ calendarId, eventId, before: current });
+    },
+    async move(calendarId: string, current: GoogleEvent, destination: string, sendUpdates: SendUpdates): Promise<GoogleEvent> {
+      const eventId = current.id!;
+      requests.push({ method: 'move', calendarId, eventId, destination, sendUpdates });
+      if (dryRun) return current;
+      const response = await calendar.events.move({ calendarId, eventId, destination, sendUpdates });
+      effects.push({ calendarId: destination, eventId, movedFrom: calendarId, before: current, after: response.data });
+      return response.data;
+    },
+  };
+}
+
+/**
+ * An event change: the event before and after it, and the writes that make it
+ */
+interface EventChange {
+  calendarId: string;
+  timeZone: string;
+  sendUpdates: SendUpdates;
+  before?: GoogleEvent;
+  after?: GoogleEvent;
+  requests: EventWrite[];
+  effects: ChangeEffect[];
+  conflictCheck?: ConflictCheck;
+  /** Nothing was written: the ask policy found conflicts the user has to confirm */
+  needsConfirmation?: boolean;
+}
+
+const DIFF_FIELDS = [
+  'summary', 'description', 'location', 'start', 'end', 'attendees', 'reminders', 'recurrence',
+  'guestsCanModify', 'guestsCanInviteOthers', 'guestsCanSeeOtherGuests',
+] as const;
+
+function diffEvents(before: CalendarEvent, after: CalendarEvent): EventFieldChange[] {
+  return DIFF_FIELDS
+    .filter((field) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+}
+
+function toChangePreview(action: EventChangePreview['action'], change: EventChange): EventChangePreview {
+  const before = change.before ? toCalendarEvent(change.before) : undefined;
+  const after = change.after ? toCalendarEvent(change.after) : undefined;
+  return {
+    action,
+    calendarId: change.calendarId,
+    timeZone: change.timeZone,
+    sendUpdates: change.sendUpdates,
+    event: (after ?? before)!,
+    changes: before && after ? diffEvents(before, after) : undefined,
+    conflictCheck: change.conflictCheck,
+    requests: change.requests,
+  };
+}
+
+/**
+ * Whether an event blocks its time: not cancelled, not marked free, not declined by the user
+ * and not a working location
+ */
+function isBusyEvent(event: GoogleEvent): boolean {
+  return event.status !== 'cancelled'
+    && event.transparency !== 'transparent'
+    && event.eventType !== 'workingLocation'
+    && event.attendees?.find((a) => a.self)?.responseStatus !== 'declined';
+}
+
+function describeConflicts(conflicts: EventConflict[], timeZone: string): string {
+  return conflicts
+    .map((c) => `"${c.summary ?? 'busy'}" at ${formatInTimeZone(c.start, timeZone, 'yyyy-MM-dd HH:mm')}`)
+    .join(', ');
+}
+
+/**
+ * Check a proposed time against busy events and apply the conflict policy. Returns the
+ * interval to book, which differs from the proposed one only when the event was shifted.
+ * `ignore` holds the IDs of the event being changed and its series.
+ */
+async function checkConflicts(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  interval: TimeInterval,
+  timeZone: string,
+  options: { policy?: ConflictPolicy; calendars?: ConflictCalendars; ignore?: Array<string | null | undefined> }
+): Promise<{ check: ConflictCheck; interval: TimeInterval }> {
+  const policy = options.policy ?? 'ask';
+  if (policy === 'allow') return { check: { policy, conflicts: [] }, interval };
+
+  const calendarIds = [calendarId];
+  if (options.calendars === 'owned') {
+    for (const owned of await fetchCalendarList(calendar, { minAccessRole: 'owner' })) {
+      if (owned.primary && calendarId === DEFAULT_CALENDAR_ID) continue;
+      if (!calendarIds.includes(owned.id)) calendarIds.push(owned.id);
+    }
+  }
+
+  // Only the shift policy needs to see past the requested end
+  const until = policy === 'shift'
+    ? new Date(interval.start.getTime() + SHIFT_SEARCH_DAYS * DAY_MS)
+    : interval.end;
+  const ignore = new Set(options.ignore?.filter((id): id is string => !!id));
+  const busy: EventConflict[] = [];
+  for (const id of calendarIds) {
+    let pageToken: string | undefined;
+    do {
+      const response = await calendar.events.list({
+        calendarId: id,
+        timeMin: interval.start.toISOString(),
+        timeMax: until.toISOString(),
+        singleEvents: true,
+        maxResults: FETCH_ALL_PAGE_SIZE,
+        pageToken,
+      });
+      for (const event of response.data.items || []) {
+        if (!event.id || !event.start || !event.end || !isBusyEvent(event)) continue;
+        // The same meeting shows up on every calendar it was added to
+        if (ignore.has(event.id) || (event.recurringEventId && ignore.has(event.recurringEventId))) continue;
+        if (busy.some((b) => b.eventId === event.id)) continue;
+        busy.push({
+          calendarId: id,
+          eventId: event.id,
+          summary: event.summary ?? undefined,
+          start: eventTimeToDate(event.start, timeZone),
+          end: eventTimeToDate(event.end, timeZone),
+        });
+      }
+      pageToken = response.data.nextPageToken ?? undefined;
+    } while (pageToken);
+  }
+
+  const conflicts = busy.filter((b) => b.start < interval.end && interval.start < b.end);
+  if (conflicts.length === 0 || policy === 'ask' || policy === 'warn') {
+    return { check: { policy, conflicts }, interval };
+  }
+  if (policy === 'reject') {
+    throw new CalendarError(
+      `The event overlaps ${describeConflicts(conflicts, timeZone)}`,
+      ErrorCodes.EVENT_CONFLICT,
+      undefined,
+      conflicts
+    );
+  }
+
+  // Shift only as far as a free slot in working hours, as find_free_slots would offer
+  const durationMs = interval.end.getTime() - interval.start.getTime();
+  const hours = workingIntervals(interval.start, until, timeZone, DEFAULT_WORKING_HOURS);
+  const slot = nextFreeInterval(busy, interval.start, durationMs, until, hours);
+  if (!slot) {
+    throw new CalendarError(
+      `No free slot in working hours within ${SHIFT_SEARCH_DAYS} days of the requested time`,
+      ErrorCodes.EVENT_CONFLICT,
+      undefined,
+      conflicts
+    );
+  }
+  return { check: { policy, conflicts, shiftedFrom: interval }, interval: slot };
+}
+
+async function runCreateEvent(input: CreateEventInput, dryRun: boolean): Promise<EventChange> {
+  if (!dryRun) await assertWritable('create events');
+  const calendar = await getCalendarClient(input.account);
+  const calendarId = await resolveCalendarId(calendar, input.calendarId);
   const timezone = normalizeTimezone(input.timeZone) || getDefaultTimezone();
+  const locale = await resolveLocale(input.locale);
 
   // Parse natural language date/time
-  const startParsed = parseDateTime(input.startTime, undefined, timezone);
-  const startDate = startParsed.dateTime;
+  const startParsed = parseDateTime(input.startTime, undefined, timezone, locale);
+  const recurrence = input.recurrence
+    ? applyRecurrence(input.recurrence, startParsed, timezone)
+    : undefined;
+  let startDate = recurrence?.start ?? startParsed.dateTime;
+  const isAllDay = recurrence?.isAllDay ?? startParsed.isAllDay;
 
   // Calculate end time
   let endDate: Date;
   if (input.endTime) {
-    const endParsed = parseDateTime(input.endTime, undefined, timezone);
-    endDate = endParsed.dateTime;
-  } else if (input.duration) {
-    endDate = calculateEndTime(startDate, input.duration);
+    const endParsed = parseDateTime(input.endTime, undefined, timezone, locale);
+    // Keep the requested length if the recurrence moved the start to another time of day
+    endDate = new Date(endParsed.dateTime.getTime() + startDate.getTime() - startParsed.dateTime.getTime());
   } else {
-    // Default to 1 hour duration
-    endDate = calculateEndTime(startDate, '1 hour');
+    // Default to 1 hour duration; an all-day event spans whole days
+    endDate = calculateEndTime(startDate, input.duration || '1 hour', timezone, isAllDay);
+  }
+
+  if (isAllDay) {
+    // All-day end dates are exclusive: include a named end day, and always the start day
+    if (input.endTime) endDate = startOfNextDay(endDate, timezone);
+    endDate = new Date(Math.max(endDate.getTime(), startOfNextDay(startDate, timezone).getTime()));
+  }
+
+  // All-day events are not checked; of a series, only the first occurrence is
+  let conflictCheck: ConflictCheck | undefined;
+  if (!isAllDay) {
+    const checked = await checkConflicts(calendar, calendarId, { start: startDate, end: endDate }, timezone, {
+      policy: input.conflictPolicy,
+      calendars: input.conflictCalendars,
+    });
+    conflictCheck = checked.check;
+    ({ start: startDate, end: endDate } = checked.interval);
   }
+  const needsConfirmation = !dryRun && conflictCheck?.policy === 'ask' && conflictCheck.conflicts.length > 0;
 
   const eventResource: calendar_v3.Schema$Event = {
     summary: input.summary,
     description: input.description,
     location: input.location,
-    start: formatForCalendar(startDate, timezone, startParsed.isAllDay),
-    end: formatForCalendar(endDate, timezone, startParsed.isAllDay),
+    start: formatForCalendar(startDate, timezone, isAllDay),
+    end: formatForCalendar(endDate, timezone, isAllDay),
   };
 
-  // Add attendees if provided
-  if (input.attendees && input.attendees.length > 0) {
-    eventResource.attendees = input.attendees.map((email) => ({ email }));
+  // Add guests and rooms if provided
+  const attendees = editAttendees(undefined, input);
+  if (attendees.length > 0) {
+    eventResource.attendees = attendees;
   }
+  applyGuestPermissions(eventResource, input);
 
   // Add reminders if provided
   if (input.reminders) {
@@ -181,27 +747,271 @@ async function createEvent(input: CreateEventInput): Promise<CalendarEvent> {
   }
 
   // Add recurrence if provided
-  if (input.recurrence) {
-    eventResource.recurrence = input.recurrence;
+  if (recurrence) {
+    eventResource.recurrence = recurrence.rules;
   }
 
-  const response = await calendar.events.insert({
+  if (input.addConference) {
+    eventResource.conferenceData = conferenceRequest();
+  }
+
+  const sendUpdates = input.sendUpdates ?? DEFAULT_SEND_UPDATES;
+  const writer = eventWriter(calendar, dryRun || needsConfirmation);
+  const created = await writer.insert(calendarId, eventResource, sendUpdates);
+  return {
     calendarId,
-    requestBody: eventResource,
-    sendUpdates: input.sendNotifications ? 'all' : 'none',
+    timeZone: timezone,
+    sendUpdates,
+    after: created,
+    requests: writer.requests,
+    effects: writer.effects,
+    conflictCheck,
+    needsConfirmation,
+  };
+}
+
+/**
+ * Add a saved change to the journal. The change has already happened, so a journal that
+ * cannot be written is reported but does not fail the call.
+ */
+async function recordChange(
+  entry: Omit<ChangeJournalEntry, 'id' | 'timestamp'>
+): Promise<ChangeJournalEntry | null> {
+  try {
+    return await appendJournalEntry(entry);
+  } catch (error) {
+    console.error(
+      '[google-calendar-mcp] Failed to journal change:',
+      error instanceof Error ? error.message : error
+    );
+    return null;
+  }
+}
+
+function journalChange(
+  action: 'create' | 'update' | 'delete' | 'move',
+  account: string | undefined,
+  change: EventChange
+): Promise<ChangeJournalEntry | null> {
+  return recordChange({
+    action,
+    account: authService.resolveAccount(account),
+    calendarId: change.calendarId,
+    summary: (change.after ?? change.before)?.summary ?? undefined,
+    effects: change.effects,
   });
+}
 
-  if (!response.data) {
-    throw new CalendarError('Failed to create event', ErrorCodes.API_ERROR);
+function toSaveResult(change: EventChange, entry: ChangeJournalEntry | null): EventSaveResult {
+  return {
+    event: toCalendarEvent(change.after!),
+    saved: !change.needsConfirmation,
+    conflictCheck: change.conflictCheck,
+    changeId: entry?.id,
+  };
+}
+
+async function createEvent(input: CreateEventInput): Promise<EventSaveResult> {
+  const change = await runCreateEvent(input, false);
+  const entry = change.needsConfirmation ? null : await journalChange('create', input.account, change);
+  return toSaveResult(change, entry);
+}
+
+/**
+ * Resolve a new event without creating it
+ */
+async function previewCreateEvent(input: CreateEventInput): Promise<EventChangePreview> {
+  return toChangePreview('create', await runCreateEvent(input, true));
+}
+
+function applyGuestPermissions(payload: GoogleEvent, input: GuestPermissions): void {
+  if (input.guestsCanModify !== undefined) payload.guestsCanModify = input.guestsCanModify;
+  if (input.guestsCanInviteOthers !== undefined) payload.guestsCanInviteOthers = input.guestsCanInviteOthers;
+  if (input.guestsCanSeeOtherGuests !== undefined) payload.guestsCanSeeOtherGuests = input.guestsCanSeeOtherGuests;
+}
+
+/**
+ * Apply the requested field changes to an event payload
+ */
+function applyEventChanges(
+  payload: GoogleEvent,
+  input: UpdateEventInput,
+  timezone: string
+): GoogleEvent {
+  if (input.summary !== undefined) {
+    payload.summary = input.summary;
   }
 
-  return toCalendarEvent(response.data);
+  if (input.description !== undefined) {
+    payload.description = input.description;
+  }
+
+  if (input.location !== undefined) {
+    payload.location = input.location;
+  }
+
+  if (input.startTime) {
+    const startParsed = parseDateTime(input.startTime, undefined, timezone, input.locale);
+    payload.start = formatForCalendar(startParsed.dateTime, timezone, startParsed.isAllDay);
+  }
+
+  if (input.endTime) {
+    const endParsed = parseDateTime(input.endTime, undefined, timezone, input.locale);
+    // All-day end dates are exclusive, so end after the named day
+    const endDate = endParsed.isAllDay ? startOfNextDay(endParsed.dateTime, timezone) : endParsed.dateTime;
+    payload.end = formatForCalendar(endDate, timezone, endParsed.isAllDay);
+  }
+
+  if ((input.startTime || input.endTime) && payload.start && payload.end
+    && eventTimeToDate(payload.end, timezone).getTime() <= eventTimeToDate(payload.start, timezone).getTime()) {
+    throw new CalendarError(
+      'The event would end before it starts. Pass both startTime and endTime to move it',
+      ErrorCodes.INVALID_DATE
+    );
+  }
+
+  if (hasAttendeeChanges(input)) {
+    payload.attendees = editAttendees(payload.attendees, input);
+  }
+  applyGuestPermissions(payload, input);
+
+  if (input.reminders) {
+    payload.reminders = {
+      useDefault: false,
+      overrides: input.reminders.map((r) => ({
+        method: r.method,
+        minutes: r.minutes,
+      })),
+    };
+  }
+
+  if (input.addConference && !payload.conferenceData) {
+    payload.conferenceData = conferenceRequest();
+  }
+
+  return payload;
 }
 
-async function updateEvent(input: UpdateEventInput): Promise<CalendarEvent> {
-  const calendar = await getCalendarClient();
-  const calendarId = input.calendarId || DEFAULT_CALENDAR_ID;
+/**
+ * Instant of an event start/end; all-day dates are midnight in the event's time zone
+ */
+function eventTimeToDate(time: EventDateTime, timeZone: string): Date {
+  return time.dateTime
+    ? parseISODate(time.dateTime)
+    : zonedTimeToInstant(`${time.date}T00:00:00`, time.timeZone || timeZone);
+}
+
+/**
+ * Move an event start/end by a fixed amount, keeping its all-day or timed form
+ */
+function shiftEventTime(time: EventDateTime, deltaMs: number, timeZone: string): EventDateTime {
+  if (!time.dateTime) {
+    const days = Math.round(deltaMs / DAY_MS);
+    const shifted = new Date(Date.parse(`${time.date}T00:00:00Z`) + days * DAY_MS);
+    return { date: shifted.toISOString().slice(0, 10) };
+  }
+  const tz = time.timeZone || timeZone;
+  const shifted = new Date(parseISODate(time.dateTime).getTime() + deltaMs);
+  return { dateTime: formatInTimeZone(shifted, tz, "yyyy-MM-dd'T'HH:mm:ssXXX"), timeZone: tz };
+}
+
+/**
+ * Locate the series an event belongs to: the master event, when the series starts,
+ * and when the given occurrence was originally scheduled
+ */
+async function getSeries(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  event: GoogleEvent,
+  timeZone: string
+): Promise<{ master: GoogleEvent; seriesStart: Date; occurrenceStart: Date; isAllDay: boolean } | null> {
+  let master: GoogleEvent = event;
+  if (!event.recurrence) {
+    if (!event.recurringEventId) return null;
+    const response = await calendar.events.get({ calendarId, eventId: event.recurringEventId });
+    master = response.data;
+  }
+  if (!master.start || !master.recurrence) return null;
+
+  const zone = master.start.timeZone || timeZone;
+  const occurrence = event.recurrence ? master.start : event.originalStartTime ?? event.start;
+  return {
+    master,
+    seriesStart: eventTimeToDate(master.start, zone),
+    occurrenceStart: eventTimeToDate(occurrence ?? master.start, zone),
+    isAllDay: !master.start.dateTime,
+  };
+}
+
+/**
+ * Occurrences of a series originally scheduled before `splitAt`, as Google expands them.
+ * Cancelled ones count too, as they do toward an RRULE's COUNT.
+ */
+async function countOccurrencesBefore(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  eventId: string,
+  splitAt: Date,
+  timeZone: string
+): Promise<number> {
+  let count = 0;
+  let pageToken: string | undefined;
+  do {
+    const response = await calendar.events.instances({
+      calendarId,
+      eventId,
+      timeMax: splitAt.toISOString(),
+      showDeleted: true,
+      maxResults: 2500,
+      pageToken,
+    });
+    count += (response.data.items ?? []).filter((item) => {
+      const original = item.originalStartTime ?? item.start;
+      return !original || eventTimeToDate(original, timeZone).getTime() < splitAt.getTime();
+    }).length;
+    pageToken = response.data.nextPageToken ?? undefined;
+  } while (pageToken);
+  return count;
+}
+
+/**
+ * Scope "this" needs one occurrence; given the master of a series it would change every occurrence
+ */
+function assertOccurrence(event: GoogleEvent, scope: RecurrenceScope | undefined, action: string): void {
+  if ((scope ?? 'this') === 'this' && event.recurrence && event.recurrence.length > 0) {
+    throw new CalendarError(
+      `Event ${event.id} is a whole recurring series. To ${action} one occurrence, pass its ID from `
+        + 'list_events; to change the series, use scope "all" or "following"',
+      ErrorCodes.INVALID_INPUT
+    );
+  }
+}
+
+/**
+ * Event fields that identify one stored event and must not be copied into a new series
+ */
+function withoutIdentity(event: GoogleEvent): GoogleEvent {
+  const {
+    id: _id,
+    iCalUID: _iCalUID,
+    etag: _etag,
+    htmlLink: _htmlLink,
+    recurringEventId: _recurringEventId,
+    originalStartTime: _originalStartTime,
+    created: _created,
+    updated: _updated,
+    sequence: _sequence,
+    ...rest
+  } = event;
+  return rest;
+}
+
+async function runUpdateEvent(input: UpdateEventInput, dryRun: boolean): Promise<EventChange> {
+  if (!dryRun) await assertWritable('update events');
+  const calendar = await getCalendarClient(input.account);
+  const calendarId = await resolveCalendarId(calendar, input.calendarId);
   const timezone = normalizeTimezone(input.timeZone) || getDefaultTimezone();
+  const sendUpdates = input.sendUpdates ?? DEFAULT_SEND_UPDATES;
 
   // First, get the existing event
   const existingResponse = await calendar.events.get({
@@ -217,76 +1027,583 @@ async function updateEvent(input: UpdateEventInput): Promise<CalendarEvent> {
   }
 
   const existingEvent = existingResponse.data;
+  assertOccurrence(existingEvent, input.scope, 'update');
 
   // Build update payload
-  const updatePayload: calendar_v3.Schema$Event = {
-    ...existingEvent,
-  };
+  const locale = await resolveLocale(input.locale);
+  const updatePayload = applyEventChanges({ ...existingEvent }, { ...input, locale }, timezone);
 
-  if (input.summary !== undefined) {
-    updatePayload.summary = input.summary;
+  // Only a new time is checked, against the edited occurrence; the event never conflicts with itself
+  let conflictCheck: ConflictCheck | undefined;
+  if ((input.startTime || input.endTime) && updatePayload.start?.dateTime && updatePayload.end) {
+    const requested = {
+      start: eventTimeToDate(updatePayload.start, timezone),
+      end: eventTimeToDate(updatePayload.end, timezone),
+    };
+    const checked = await checkConflicts(calendar, calendarId, requested, timezone, {
+      policy: input.conflictPolicy,
+      calendars: input.conflictCalendars,
+      ignore: [existingEvent.id, existingEvent.recurringEventId],
+    });
+    conflictCheck = checked.check;
+    const delta = checked.interval.start.getTime() - requested.start.getTime();
+    if (delta !== 0) {
+      updatePayload.start = shiftEventTime(updatePayload.start, delta, timezone);
+      updatePayload.end = shiftEventTime(updatePayload.end, delta, timezone);
+    }
   }
+  const needsConfirmation = !dryRun && conflictCheck?.policy === 'ask' && conflictCheck.conflicts.length > 0;
 
-  if (input.description !== undefined) {
-    updatePayload.description = input.description;
+  const writer = eventWriter(calendar, dryRun || needsConfirmation);
+  const change = {
+    calendarId,
+    timeZone: timezone,
+    sendUpdates,
+    requests: writer.requests,
+    effects: writer.effects,
+    conflictCheck,
+    needsConfirmation,
+  } as const;
+
+  const series = input.scope && input.scope !== 'this'
+    ? await getSeries(calendar, calendarId, existingEvent, timezone)
+    : null;
+
+  if (!series) {
+    const updated = await writer.update(calendarId, existingEvent, updatePayload, sendUpdates);
+    return { ...change, before: existingEvent, after: updated };
   }
 
-  if (input.location !== undefined) {
-    updatePayload.location = input.location;
+  const { master, seriesStart, occurrenceStart, isAllDay } = series;
+
+  if (input.scope === 'all' || occurrenceStart.getTime() <= seriesStart.getTime()) {
+    // Same field changes on the master; a new time moves every occurrence by the same amount
+    const masterPayload = applyEventChanges(
+      { ...master },
+      { ...input, startTime: undefined, endTime: undefined },
+      timezone
+    );
+    const timeChanges: Array<'start' | 'end'> = [];
+    if (input.startTime) timeChanges.push('start');
+    if (input.endTime) timeChanges.push('end');
+    for (const field of timeChanges) {
+      const before = existingEvent[field]!;
+      const after = updatePayload[field]!;
+      if (!before.dateTime !== !after.dateTime) {
+        throw new CalendarError(
+          'Cannot switch a whole series between all-day and timed. Use scope "this" or "following"',
+          ErrorCodes.INVALID_INPUT
+        );
+      }
+      const delta = eventTimeToDate(after, timezone).getTime() - eventTimeToDate(before, timezone).getTime();
+      masterPayload[field] = shiftEventTime(master[field]!, delta, timezone);
+    }
+
+    const updated = await writer.update(calendarId, master, masterPayload, sendUpdates);
+    return { ...change, before: master, after: updated };
   }
 
-  if (input.startTime) {
-    const startParsed = parseDateTime(input.startTime, undefined, timezone);
-    updatePayload.start = formatForCalendar(startParsed.dateTime, timezone, startParsed.isAllDay);
+  // "This and following": end the original series before this occurrence and start a new one
+  const zone = master.start?.timeZone || timezone;
+  const recurrence = master.recurrence ?? [];
+  const occurrencesBefore = needsOccurrenceCount(recurrence)
+    ? await countOccurrencesBefore(calendar, calendarId, master.id!, occurrenceStart, zone)
+    : undefined;
+  const split = splitRecurrence(recurrence, seriesStart, occurrenceStart, zone, isAllDay, occurrencesBefore);
+  const created = await writer.insert(
+    calendarId,
+    { ...withoutIdentity(updatePayload), recurrence: split.after.length > 0 ? split.after : undefined },
+    sendUpdates
+  );
+
+  try {
+    await writer.patch(calendarId, master, { recurrence: split.before }, sendUpdates);
+  } catch (error) {
+    // Do not leave the same occurrences in two series; whoever was told of the new one hears it is gone
+    try {
+      await calendar.events.delete({ calendarId, eventId: created.id!, sendUpdates });
+    } catch (rollbackError) {
+      const reason = (e: unknown) => (e instanceof Error ? e.message : String(e));
+      throw new CalendarError(
+        `Failed to end the original series (${reason(error)}), and the new series ${created.id} `
+          + `could not be removed (${reason(rollbackError)}). Delete event ${created.id} to avoid duplicate occurrences`,
+        ErrorCodes.API_ERROR,
+        undefined,
+        { orphanedEventId: created.id }
+      );
+    }
+    throw error;
   }
 
-  if (input.endTime) {
-    const endParsed = parseDateTime(input.endTime, undefined, timezone);
-    updatePayload.end = formatForCalendar(endParsed.dateTime, timezone, endParsed.isAllDay);
+  return { ...change, before: existingEvent, after: created };
+}
+
+async function updateEvent(input: UpdateEventInput): Promise<EventSaveResult> {
+  const change = await runUpdateEvent(input, false);
+  const entry = change.needsConfirmation ? null : await journalChange('update', input.account, change);
+  return toSaveResult(change, entry);
+}
+
+/**
+ * Resolve an update and compare it with the current event, without saving it
+ */
+async function previewUpdateEvent(input: UpdateEventInput): Promise<EventChangePreview> {
+  return toChangePreview('update', await runUpdateEvent(input, true));
+}
+
+async function runDeleteEvent(input: DeleteEventInput, dryRun: boolean): Promise<EventChange> {
+  if (!dryRun) await assertWritable('delete events');
+  const calendar = await getCalendarClient(input.account);
+  const calendarId = await resolveCalendarId(calendar, input.calendarId);
+  const sendUpdates = input.sendUpdates ?? DEFAULT_SEND_UPDATES;
+  const timeZone = getDefaultTimezone();
+  const writer = eventWriter(calendar, dryRun);
+  const change = { calendarId, timeZone, sendUpdates, requests: writer.requests, effects: writer.effects } as const;
+
+  const existing = (await calendar.events.get({ calendarId, eventId: input.eventId })).data;
+  assertOccurrence(existing, input.scope, 'delete');
+  const series = input.scope && input.scope !== 'this'
+    ? await getSeries(calendar, calendarId, existing, timeZone)
+    : null;
+
+  if (!series) {
+    await writer.delete(calendarId, existing, sendUpdates);
+    return { ...change, before: existing };
   }
 
-  if (input.attendees) {
-    updatePayload.attendees = input.attendees.map((email) => ({ email }));
+  const { master, seriesStart, occurrenceStart, isAllDay } = series;
+  if (input.scope === 'all' || occurrenceStart.getTime() <= seriesStart.getTime()) {
+    await writer.delete(calendarId, master, sendUpdates);
+    return { ...change, before: master };
   }
 
-  if (input.reminders) {
-    updatePayload.reminders = {
-      useDefault: false,
-      overrides: input.reminders.map((r) => ({
-        method: r.method,
-        minutes: r.minutes,
-      })),
-    };
+  // "This and following": keep only the occurrences before this one
+  const zone = master.start?.timeZone || timeZone;
+  const before = endRecurrence(master.recurrence ?? [], occurrenceStart, zone, isAllDay);
+  const after = await writer.patch(calendarId, master, { recurrence: before }, sendUpdates);
+  return { ...change, before: master, after };
+}
+
+async function deleteEvent(input: DeleteEventInput): Promise<DeleteEventResult> {
+  const entry = await journalChange('delete', input.account, await runDeleteEvent(input, false));
+  return { changeId: entry?.id };
+}
+
+/**
+ * Work out what a delete would remove, without deleting anything
+ */
+async function previewDeleteEvent(input: DeleteEventInput): Promise<EventChangePreview> {
+  return toChangePreview('delete', await runDeleteEvent(input, true));
+}
+
+async function runMoveEvent(input: MoveEventInput, dryRun: boolean): Promise<EventChange> {
+  if (!dryRun) await assertWritable('move events');
+  const calendar = await getCalendarClient(input.account);
+  const calendarId = await resolveCalendarId(calendar, input.calendarId);
+  const destination = await resolveCalendarId(calendar, input.destinationCalendarId);
+  if (destination === calendarId) {
+    throw new CalendarError(`The event is already on calendar ${calendarId}`, ErrorCodes.INVALID_INPUT);
+  }
+  const sendUpdates = input.sendUpdates ?? DEFAULT_SEND_UPDATES;
+  const writer = eventWriter(calendar, dryRun);
+
+  const existing = (await calendar.events.get({ calendarId, eventId: input.eventId })).data;
+  // The API moves whole events only; an occurrence goes with its series
+  if (existing.recurringEventId) {
+    throw new CalendarError(
+      `Event ${existing.id} is one occurrence of a recurring series, and only the whole series can move. `
+        + `Pass the series ID ${existing.recurringEventId}`,
+      ErrorCodes.INVALID_INPUT
+    );
+  }
+
+  const after = await writer.move(calendarId, existing, destination, sendUpdates);
+  return {
+    calendarId: destination,
+    timeZone: getDefaultTimezone(),
+    sendUpdates,
+    before: existing,
+    after,
+    requests: writer.requests,
+    effects: writer.effects,
+  };
+}
+
+/**
+ * Move an event to another calendar. That calendar becomes the organizer; the event ID stays.
+ */
+async function moveEvent(input: MoveEventInput): Promise<MoveEventResult> {
+  const change = await runMoveEvent(input, false);
+  const entry = await journalChange('move', input.account, change);
+  return { event: toCalendarEvent(change.after!), changeId: entry?.id };
+}
+
+/**
+ * Check a move and list the request it would send, without moving anything
+ */
+async function previewMoveEvent(input: MoveEventInput): Promise<EventChangePreview> {
+  return toChangePreview('move', await runMoveEvent(input, true));
+}
+
+/**
+ * Why an event cannot take the user's reply, or null if it can
+ */
+function rsvpBlocker(event: GoogleEvent): string | null {
+  const self = event.attendees?.find((a) => a.self);
+  if (self?.organizer || (!self && event.organizer?.self)) return 'You organize this event';
+  if (!self) return 'You are not a guest of this event';
+  if (event.status === 'cancelled') return 'The event was cancelled';
+  return null;
+}
+
+/**
+ * Patch an invitation with the user's reply. Only the user's own guest entry changes.
+ */
+async function sendRsvp(
+  writer: ReturnType<typeof eventWriter>,
+  calendarId: string,
+  event: GoogleEvent,
+  response: RsvpResponse,
+  comment: string | undefined,
+  sendUpdates: SendUpdates
+): Promise<GoogleEvent> {
+  const attendees = (event.attendees ?? []).map((a) =>
+    a.self ? { ...a, responseStatus: response, comment: comment ?? a.comment } : a);
+  return writer.patch(calendarId, event, { attendees }, sendUpdates);
+}
+
+/**
+ * Replies to send, with what the journal needs to undo them
+ */
+interface InvitationReplies extends RespondToEventResult {
+  calendarId: string;
+  effects: ChangeEffect[];
+}
+
+async function runRespondToEvent(input: RespondToEventInput, dryRun: boolean): Promise<InvitationReplies> {
+  if (!input.eventId && !input.timeMin) {
+    throw new CalendarError(
+      'Give an eventId, or a timeMin to reply to every invitation in a range',
+      ErrorCodes.MISSING_REQUIRED_FIELD
+    );
+  }
+  if (input.eventId && (input.timeMin || input.timeMax || input.query)) {
+    throw new CalendarError('Give either an eventId or a time range, not both', ErrorCodes.INVALID_INPUT);
+  }
+  if (!input.eventId && (input.proposedStartTime || input.proposedEndTime)) {
+    throw new CalendarError('A new time can only be proposed for a single event', ErrorCodes.INVALID_INPUT);
   }
+  if (!dryRun) await assertWritable('reply to invitations');
 
-  const response = await calendar.events.update({
+  const calendar = await getCalendarClient(input.account);
+  const calendarId = await resolveCalendarId(calendar, input.calendarId);
+  const timeZone = normalizeTimezone(input.timeZone) || getDefaultTimezone();
+  const locale = await resolveLocale(input.locale);
+  const sendUpdates = input.sendUpdates ?? DEFAULT_SEND_UPDATES;
+  const writer = eventWriter(calendar, dryRun);
+
+  let events: GoogleEvent[];
+  if (input.eventId) {
+    events = [(await calendar.events.get({ calendarId, eventId: input.eventId })).data];
+  } else {
+    const config = await loadConfig();
+    const { timeMin, timeMax } = resolveTimeRange(input.timeMin, input.timeMax, {
+      timeZone,
+      weekStartsOn: config.weekStartsOn,
+      locale,
+    });
+    events = [];
+    let pageToken: string | undefined;
+    do {
+      const response = await calendar.events.list({
+        calendarId,
+        timeMin,
+        timeMax,
+        q: input.query || undefined,
+        singleEvents: true,
+        orderBy: 'startTime',
+        maxResults: FETCH_ALL_PAGE_SIZE,
+        pageToken,
+      });
+      events.push(...(response.data.items || []));
+      pageToken = response.data.nextPageToken ?? undefined;
+    } while (pageToken && events.length < FETCH_ALL_MAX_EVENTS);
+  }
+
+  if (input.scope === 'all') {
+    // Reply once per series, on its master event
+    const seen = new Set<string>();
+    const masters: GoogleEvent[] = [];
+    for (const event of events) {
+      const master = event.recurringEventId
+        ? (await calendar.events.get({ calendarId, eventId: event.recurringEventId })).data
+        : event;
+      if (seen.has(master.id!)) continue;
+      seen.add(master.id!);
+      masters.push(master);
+    }
+    events = masters;
+  }
+
+  let comment = input.comment;
+  let proposedTime: TimeInterval | undefined;
+  const [single] = events;
+  if (input.proposedStartTime && single?.start && single.end) {
+    // The API has no field for a counter-proposal, so the organizer gets it in the comment
+    const start = parseDateTime(input.proposedStartTime, undefined, timeZone, locale).dateTime;
+    const length = eventTimeToDate(single.end, timeZone).getTime() - eventTimeToDate(single.start, timeZone).getTime();
+    const end = input.proposedEndTime
+      ? parseDateTime(input.proposedEndTime, undefined, timeZone, locale).dateTime
+      : new Date(start.getTime() + length);
+    if (end.getTime() <= start.getTime()) {
+      throw new CalendarError('The proposed end must be after the proposed start', ErrorCodes.INVALID_DATE);
+    }
+    proposedTime = { start, end };
+    const proposal = `Proposed new time: ${formatForDisplay(start, timeZone)} - ${formatForDisplay(end, timeZone)}`;
+    comment = comment ? `${comment}\n${proposal}` : proposal;
+  }
+
+  const responded: EventResponseChange[] = [];
+  const skipped: SkippedEvent[] = [];
+  for (const event of events) {
+    const skip = (reason: string) => skipped.push({ eventId: event.id!, summary: event.summary ?? undefined, reason });
+    const blocker = rsvpBlocker(event);
+    if (blocker) {
+      if (input.eventId) {
+        throw new CalendarError(`Cannot reply to "${event.summary ?? event.id}": ${blocker}`, ErrorCodes.INVALID_INPUT);
+      }
+      skip(blocker);
+      continue;
+    }
+    const self = event.attendees!.find((a) => a.self)!;
+    if (self.responseStatus === input.response && (comment === undefined || comment === (self.comment ?? ''))) {
+      skip(`Already ${input.response}`);
+      continue;
+    }
+
+    try {
+      const updated = await sendRsvp(writer, calendarId, event, input.response, comment, sendUpdates);
+      responded.push({
+        event: toCalendarEvent(updated),
+        previousResponse: (self.responseStatus as AttendeeResponseStatus | null) ?? undefined,
+      });
+    } catch (error) {
+      // One failed reply in a range does not stop the rest
+      if (input.eventId) throw error;
+      skip(`Reply failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return {
+    response: input.response,
+    responded,
+    skipped,
+    proposedTime,
+    timeZone,
+    sendUpdates,
+    requests: writer.requests,
     calendarId,
-    eventId: input.eventId,
-    requestBody: updatePayload,
-    sendUpdates: input.sendNotifications ? 'all' : 'none',
-  });
+    effects: writer.effects,
+  };
+}
 
-  if (!response.data) {
-    throw new CalendarError('Failed to update event', ErrorCodes.API_ERROR);
+async function respondToEvent(input: RespondToEventInput): Promise<RespondToEventResult> {
+  const { calendarId, effects, ...result } = await runRespondToEvent(input, false);
+  if (effects.length > 0) {
+    const [first] = result.responded;
+    const entry = await recordChange({
+      action: 'respond',
+      account: authService.resolveAccount(input.account),
+      calendarId,
+      summary: result.responded.length === 1 ? first?.event.summary : `${result.responded.length} invitations`,
+      effects,
+    });
+    result.changeId = entry?.id;
   }
+  return result;
+}
 
-  return toCalendarEvent(response.data);
+/**
+ * Work out which invitations a reply would go to, without sending it
+ */
+async function previewRespondToEvent(input: RespondToEventInput): Promise<RespondToEventResult> {
+  const { calendarId: _calendarId, effects: _effects, ...result } = await runRespondToEvent(input, true);
+  return result;
 }
 
-async function deleteEvent(input: DeleteEventInput): Promise<void> {
-  const calendar = await getCalendarClient();
-  const calendarId = input.calendarId || DEFAULT_CALENDAR_ID;
+/**
+ * Map each undone journal entry to the undo that reverted it. Undoing an undo re-applies the
+ * change it reverted.
+ */
+function findUndone(entries: ChangeJournalEntry[]): Map<string, string> {
+  const undone = new Map<string, string>();
+  const byId = new Map(entries.map((entry) => [entry.id, entry]));
+  for (const entry of entries) {
+    if (!entry.undoes) continue;
+    undone.set(entry.undoes, entry.id);
+    const reverted = byId.get(entry.undoes);
+    if (reverted?.undoes) undone.delete(reverted.undoes);
+  }
+  return undone;
+}
 
-  await calendar.events.delete({
-    calendarId,
-    eventId: input.eventId,
-    sendUpdates: input.sendNotifications ? 'all' : 'none',
+function toChangeSummary(entry: ChangeJournalEntry, undone: Map<string, string>): ChangeSummary {
+  return {
+    id: entry.id,
+    timestamp: entry.timestamp,
+    action: entry.action,
+    account: entry.account,
+    calendarId: entry.calendarId,
+    summary: entry.summary,
+    eventIds: [...new Set(entry.effects.map((effect) => effect.eventId))],
+    undoes: entry.undoes,
+    undoneBy: undone.get(entry.id),
+  };
+}
+
+/**
+ * Recent journaled changes, newest first
+ */
+async function listChanges(limit = 20): Promise<ChangeSummary[]> {
+  const entries = await readJournal();
+  const undone = findUndone(entries);
+  return entries.slice(-limit).reverse().map((entry) => toChangeSummary(entry, undone));
+}
+
+/**
+ * The stored event, or null if it no longer exists. Deleted events may still come back with
+ * status "cancelled".
+ */
+async function findEvent(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  eventId: string
+): Promise<GoogleEvent | null> {
+  try {
+    return (await calendar.events.get({ calendarId, eventId })).data;
+  } catch (error) {
+    const code = (error as { code?: number }).code;
+    if (code === 404 || code === 410) return null;
+    throw error;
+  }
+}
+
+function isLive(event: GoogleEvent | null): event is GoogleEvent {
+  return !!event && event.status !== 'cancelled';
+}
+
+/**
+ * Whether an event no longer looks the way a journaled change left it. Later changes to the
+ * event that have since been undone do not count; the event must match the last undo instead.
+ */
+function changedSince(
+  entries: ChangeJournalEntry[],
+  undone: Map<string, string>,
+  entry: ChangeJournalEntry,
+  effect: ChangeEffect,
+  event: GoogleEvent | null
+): boolean {
+  const later = entries.slice(entries.indexOf(entry) + 1);
+  const laterIds = new Set(later.map((e) => e.id));
+  const touching = later.filter((e) => e.effects.some((f) => f.eventId === effect.eventId));
+  if (touching.some((e) => !undone.has(e.id) && !(e.undoes && laterIds.has(e.undoes)))) return true;
+
+  const latest = touching.length > 0
+    ? touching[touching.length - 1]!.effects.filter((f) => f.eventId === effect.eventId).pop()!
+    : effect;
+  return latest.after ? event?.etag !== latest.after.etag : isLive(event);
+}
+
+/**
+ * Revert a journaled change: remove events it created, restore events it changed or deleted
+ * and move events back to the calendar they came from. Events edited since the change are
+ * left alone unless `force` is set.
+ */
+async function undoChange(input: UndoChangeInput = {}): Promise<UndoChangeResult> {
+  await assertWritable('undo changes');
+  const entries = await readJournal();
+  const undone = findUndone(entries);
+  const entry = input.changeId
+    ? entries.find((e) => e.id === input.changeId)
+    : [...entries].reverse().find((e) => e.action !== 'undo' && !undone.has(e.id));
+
+  if (!entry) {
+    const { journalRetentionDays } = await loadConfig();
+    throw new CalendarError(
+      journalRetentionDays === 0
+        ? 'The change journal is turned off (GOOGLE_CALENDAR_JOURNAL_RETENTION_DAYS is 0)'
+        : input.changeId
+          ? `Change not found in the journal: ${input.changeId}`
+          : 'There is no change to undo',
+      ErrorCodes.CHANGE_NOT_FOUND
+    );
+  }
+  if (undone.has(entry.id)) {
+    throw new CalendarError(
+      `Change ${entry.id} was already undone by ${undone.get(entry.id)}`,
+      ErrorCodes.INVALID_INPUT
+    );
+  }
+
+  const calendar = await getCalendarClient(entry.account);
+  const sendUpdates = input.sendUpdates ?? DEFAULT_SEND_UPDATES;
+  // Latest write first; read every event before writing so a conflict stops the whole undo
+  const effects = [...entry.effects].reverse();
+  const current: Array<GoogleEvent | null> = [];
+  for (const effect of effects) {
+    const event = await findEvent(calendar, effect.calendarId, effect.eventId);
+    if (!input.force && changedSince(entries, undone, entry, effect, event)) {
+      throw new CalendarError(
+        `Event ${effect.eventId} was changed after change ${entry.id}. Pass force to overwrite it`,
+        ErrorCodes.CHANGE_CONFLICT
+      );
+    }
+    current.push(event);
+  }
+
+  const writer = eventWriter(calendar, false);
+  const removed: string[] = [];
+  for (const [index, effect] of effects.entries()) {
+    const event = current[index] ?? null;
+    if (effect.movedFrom) {
+      // Move it back, or recreate it where it was if it has since been deleted
+      if (isLive(event)) await writer.move(effect.calendarId, event, effect.movedFrom, sendUpdates);
+      else await writer.insert(effect.movedFrom, withoutIdentity(effect.before!), sendUpdates);
+    } else if (!effect.before) {
+      if (isLive(event)) {
+        await writer.delete(effect.calendarId, event, sendUpdates);
+        removed.push(effect.eventId);
+      }
+    } else if (event) {
+      // Updating a cancelled event with its old status also brings it back
+      const { etag: _etag, updated: _updated, sequence: _sequence, ...restored } = effect.before;
+      await writer.update(effect.calendarId, event, { ...restored, status: effect.before.status || 'confirmed' }, sendUpdates);
+    } else {
+      await writer.insert(effect.calendarId, withoutIdentity(effect.before), sendUpdates);
+    }
+  }
+
+  const undo = await recordChange({
+    action: 'undo',
+    account: entry.account,
+    calendarId: entry.calendarId,
+    summary: entry.summary,
+    undoes: entry.id,
+    effects: writer.effects,
   });
+  if (undo) undone.set(entry.id, undo.id);
+
+  return {
+    change: toChangeSummary(entry, undone),
+    undoId: undo?.id,
+    restored: writer.effects.filter((effect) => effect.after).map((effect) => toCalendarEvent(effect.after!)),
+    removed,
+  };
 }
 
-async function getEvent(eventId: string, calendarId?: string): Promise<CalendarEvent> {
-  const calendar = await getCalendarClient();
-  const targetCalendarId = calendarId || DEFAULT_CALENDAR_ID;
+async function getEvent(eventId: string, calendarId?: string, account?: string): Promise<CalendarEvent> {
+  const calendar = await getCalendarClient(account);
+  const targetCalendarId = await resolveCalendarId(calendar, calendarId);
 
   const response = await calendar.events.get({
     calendarId: targetCalendarId,
@@ -303,10 +1620,300 @@ async function getEvent(eventId: string, calendarId?: string): Promise<CalendarE
   return toCalendarEvent(response.data);
 }
 
+async function listCalendars(input: ListCalendarsInput = {}): Promise<CalendarInfo[]> {
+  const calendar = await getCalendarClient(input.account);
+  return fetchCalendarList(calendar, input);
+}
+
+async function getCalendar(calendarId: string, account?: string): Promise<CalendarInfo> {
+  const calendar = await getCalendarClient(account);
+  const targetCalendarId = await resolveCalendarId(calendar, calendarId);
+
+  try {
+    const response = await calendar.calendarList.get({ calendarId: targetCalendarId });
+    return toCalendarInfo(response.data);
+  } catch (error) {
+    if ((error as { code?: number }).code === 404) {
+      throw new CalendarError(`Calendar not found: ${targetCalendarId}`, ErrorCodes.CALENDAR_NOT_FOUND);
+    }
+    throw error;
+  }
+}
+
+function toAclRule(rule: calendar_v3.Schema$AclRule): CalendarAclRule {
+  return {
+    id: rule.id || '',
+    role: (rule.role || 'none') as CalendarAclRule['role'],
+    scopeType: (rule.scope?.type || 'default') as AclScopeType,
+    scopeValue: rule.scope?.value ?? undefined,
+  };
+}
+
+async function createCalendar(input: CreateCalendarInput): Promise<CalendarInfo> {
+  await assertWritable('create calendars');
+  const calendar = await getCalendarClient(input.account);
+
+  const response = await calendar.calendars.insert({
+    requestBody: {
+      summary: input.summary,
+      description: input.description,
+      timeZone: normalizeTimezone(input.timeZone) || getDefaultTimezone(),
+    },
+  });
+
+  if (!response.data) {
+    throw new CalendarError('Failed to create calendar', ErrorCodes.API_ERROR);
+  }
+
+  return toCalendarInfo({ ...response.data, accessRole: 'owner', selected: true });
+}
+
+async function updateCalendar(input: UpdateCalendarInput): Promise<CalendarInfo> {
+  await assertWritable('update calendars');
+  const calendar = await getCalendarClient(input.account);
+  const calendarId = await resolveCalendarId(calendar, input.calendarId);
+
+  const requestBody: calendar_v3.Schema$Calendar = {};
+  if (input.summary !== undefined) requestBody.summary = input.summary;
+  if (input.description !== undefined) requestBody.description = input.description;
+  if (input.timeZone !== undefined) requestBody.timeZone = normalizeTimezone(input.timeZone);
+
+  if (Object.keys(requestBody).length === 0) {
+    throw new CalendarError('Nothing to update: provide summary, description or timeZone', ErrorCodes.INVALID_INPUT);
+  }
+
+  await calendar.calendars.patch({ calendarId, requestBody });
+  return getCalendar(calendarId, input.account);
+}
+
+async function deleteCalendar(calendarIdOrName: string, account?: string): Promise<string> {
+  await assertWritable('delete calendars');
+  const calendar = await getCalendarClient(account);
+  const calendarId = await resolveCalendarId(calendar, calendarIdOrName);
+
+  const info = await getCalendar(calendarId, account);
+  if (info.primary) {
+    throw new CalendarError('The primary calendar cannot be deleted', ErrorCodes.INVALID_INPUT);
+  }
+
+  await calendar.calendars.delete({ calendarId });
+  return calendarId;
+}
+
+async function listCalendarShares(calendarIdOrName: string, account?: string): Promise<CalendarAclRule[]> {
+  const calendar = await getCalendarClient(account);
+  const calendarId = await resolveCalendarId(calendar, calendarIdOrName);
+
+  const rules: CalendarAclRule[] = [];
+  let pageToken: string | undefined;
+  do {
+    const response = await calendar.acl.list({ calendarId, pageToken });
+    rules.push(...(response.data.items || []).map(toAclRule));
+    pageToken = response.data.nextPageToken ?? undefined;
+  } while (pageToken);
+  return rules;
+}
+
+async function shareCalendar(input: ShareCalendarInput): Promise<CalendarAclRule> {
+  await assertWritable('share calendars');
+  if (input.scopeType !== 'default' && !input.scopeValue) {
+    throw new CalendarError(
+      `scopeValue is required for scope type "${input.scopeType}"`,
+      ErrorCodes.MISSING_REQUIRED_FIELD
+    );
+  }
+  const calendar = await getCalendarClient(input.account);
+  const calendarId = await resolveCalendarId(calendar, input.calendarId);
+
+  const response = await calendar.acl.insert({
+    calendarId,
+    sendNotifications: input.sendNotifications ?? true,
+    requestBody: {
+      role: input.role,
+      scope: {
+        type: input.scopeType,
+        value: input.scopeType === 'default' ? undefined : input.scopeValue,
+      },
+    },
+  });
+
+  if (!response.data) {
+    throw new CalendarError('Failed to share calendar', ErrorCodes.API_ERROR);
+  }
+
+  return toAclRule(response.data);
+}
+
+async function revokeCalendarShare(input: RevokeCalendarShareInput): Promise<string> {
+  await assertWritable('revoke calendar shares');
+  // ACL rule IDs are "<scopeType>:<scopeValue>" (or "default")
+  const ruleId = input.ruleId
+    || (input.scopeType === 'default'
+      ? 'default'
+      : input.scopeType && input.scopeValue
+        ? `${input.scopeType}:${input.scopeValue}`
+        : undefined);
+  if (!ruleId) {
+    throw new CalendarError(
+      'Provide ruleId, or scopeType and scopeValue, of the share to revoke',
+      ErrorCodes.MISSING_REQUIRED_FIELD
+    );
+  }
+  const calendar = await getCalendarClient(input.account);
+  const calendarId = await resolveCalendarId(calendar, input.calendarId);
+
+  await calendar.acl.delete({ calendarId, ruleId });
+  return ruleId;
+}
+
+async function queryFreeBusy(input: FreeBusyInput): Promise<Record<string, FreeBusyCalendar>> {
+  const calendar = await getCalendarClient(input.account);
+  const timezone = normalizeTimezone(input.timeZone) || getDefaultTimezone();
+
+  // Attendee emails pass through as calendar IDs; calendar names are resolved
+  const ids: string[] = [];
+  for (const id of input.calendarIds) {
+    ids.push(await resolveCalendarId(calendar, id));
+  }
+
+  const response = await calendar.freebusy.query({
+    requestBody: {
+      timeMin: input.timeMin.toISOString(),
+      timeMax: input.timeMax.toISOString(),
+      timeZone: timezone,
+      items: [...new Set(ids)].map((id) => ({ id })),
+    },
+  });
+
+  // Keyed by the caller's calendar ID or name
+  const result: Record<string, FreeBusyCalendar> = {};
+  input.calendarIds.forEach((requested, index) => {
+    const entry = response.data.calendars?.[ids[index]!];
+    result[requested] = {
+      busy: (entry?.busy || [])
+        .filter((b) => b.start && b.end)
+        .map((b) => ({ start: new Date(b.start!), end: new Date(b.end!) })),
+      errors: entry?.errors?.map((e) => e.reason || 'unknown'),
+    };
+  });
+  return result;
+}
+
+async function findFreeSlots(input: FindFreeSlotsInput): Promise<FindFreeSlotsResult> {
+  const timezone = normalizeTimezone(input.timeZone) || getDefaultTimezone();
+  const locale = await resolveLocale(input.locale);
+
+  const windowStart = input.windowStart
+    ? parseDateTime(input.windowStart, undefined, timezone, locale).dateTime
+    : new Date();
+  let windowEnd: Date;
+  if (input.windowEnd) {
+    windowEnd = parseDateTime(input.windowEnd, windowStart, timezone, locale).dateTime;
+  } else {
+    // Default to a one-week search window, independent of the host's time zone
+    windowEnd = new Date(windowStart.getTime() + 7 * DAY_MS);
+  }
+  const durationMinutes = parseDuration(input.duration || '1 hour').totalMinutes;
+
+  const required = [...new Set([
+    ...(input.calendarIds && input.calendarIds.length > 0 ? input.calendarIds : [DEFAULT_CALENDAR_ID]),
+    ...(input.attendees || []),
+  ])];
+  const optional = [...new Set(input.optionalAttendees || [])].filter((id) => !required.includes(id));
+
+  const freeBusy = await queryFreeBusy({
+    calendarIds: [...required, ...optional],
+    timeMin: windowStart,
+    timeMax: windowEnd,
+    timeZone: timezone,
+    account: input.account,
+  });
+
+  const warnings: string[] = [];
+  const busy: Record<string, FreeBusyCalendar['busy']> = {};
+  const optionalBusy: Record<string, FreeBusyCalendar['busy']> = {};
+  for (const [id, entry] of Object.entries(freeBusy)) {
+    if (entry.errors && entry.errors.length > 0) {
+      warnings.push(`Availability unknown for ${id}: ${entry.errors.join(', ')}`);
+    }
+    if (required.includes(id)) busy[id] = entry.busy;
+    else optionalBusy[id] = entry.busy;
+  }
+
+  const slots = computeFreeSlots({
+    busy,
+    optionalBusy,
+    windowStart,
+    windowEnd,
+    durationMinutes,
+    timeZone: timezone,
+    workingHours: {
+      start: input.workingHoursStart || DEFAULT_WORKING_HOURS.start,
+      end: input.workingHoursEnd || DEFAULT_WORKING_HOURS.end,
+      days: input.workingDays && input.workingDays.length > 0 ? input.workingDays : DEFAULT_WORKING_HOURS.days,
+    },
+    granularityMinutes: input.granularityMinutes,
+    maxResults: input.maxResults,
+  });
+
+  return { slots, windowStart, windowEnd, durationMinutes, timeZone: timezone, warnings };
+}
+
+/**
+ * Translate recurrence input and list the occurrences it produces, without saving anything
+ */
+async function previewRecurrence(input: PreviewRecurrenceInput): Promise<RecurrencePreview> {
+  const timeZone = normalizeTimezone(input.timeZone) || getDefaultTimezone();
+  const startParsed = parseDateTime(input.startTime, undefined, timeZone, await resolveLocale(input.locale));
+  const { rules, start, isAllDay } = applyRecurrence(input.recurrence, startParsed, timeZone);
+  const unsupported = unexpandableParts(rules);
+  return {
+    rules,
+    timeZone,
+    isAllDay,
+    occurrences: unsupported.length > 0
+      ? []
+      : expandRecurrence(rules, start, timeZone, { count: input.count ?? 5, isAllDay }),
+    unsupported,
+  };
+}
+
+/**
+ * First occurrences of a recurring event; none when the preview cannot expand its rules
+ */
+function getOccurrences(event: CalendarEvent, count = 5): RecurrenceOccurrence[] {
+  if (!event.recurrence || event.recurrence.length === 0) return [];
+  const timeZone = event.start.timeZone || getDefaultTimezone();
+  if (unexpandableParts(event.recurrence).length > 0) return [];
+  const start = eventTimeToDate(event.start, timeZone);
+  return expandRecurrence(event.recurrence, start, timeZone, { count, isAllDay: !event.start.dateTime });
+}
+
 export const calendarService = {
   listEvents,
   createEvent,
+  previewCreateEvent,
   updateEvent,
+  previewUpdateEvent,
   deleteEvent,
+  previewDeleteEvent,
+  moveEvent,
+  previewMoveEvent,
+  respondToEvent,
+  previewRespondToEvent,
+  listChanges,
+  undoChange,
   getEvent,
+  listCalendars,
+  getCalendar,
+  createCalendar,
+  updateCalendar,
+  deleteCalendar,
+  listCalendarShares,
+  shareCalendar,
+  revokeCalendarShare,
+  queryFreeBusy,
+  findFreeSlots,
+  previewRecurrence,
+  getOccurrences,
 };
@@ -0,0 +1,90 @@
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ChangeJournalEntry } from '../types/calendar.types.js';
+import { appendJournalEntry, readJournal } from './change-journal.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let dir: string;
+let path: string;
+
+const change = (summary: string): Omit<ChangeJournalEntry, 'id' | 'timestamp'> => ({
+  action: 'update',
+  account: 'default',
+  calendarId: 'primary',
+  summary,
+  effects: [],
+});
+
+/**
+ * Journal entries written `daysAgo` days ago, as they would appear in the file
+ */
+function entries(count: number, daysAgo = 0): ChangeJournalEntry[] {
+  const timestamp = new Date(Date.now() - daysAgo * DAY_MS).toISOString();
+  return Array.from({ length: count }, (_, i) => ({ ...change(`change ${i}`), id: `old${i}`, timestamp }));
+}
+
+async function seed(lines: ChangeJournalEntry[]): Promise<void> {
+  await writeFile(path, lines.map((entry) => `${JSON.stringify(entry)}\n`).join(''));
+}
+
+async function fileEntries(): Promise<ChangeJournalEntry[]> {
+  const content = await readFile(path, 'utf-8');
+  return content.trim().split('\n').map((line) => JSON.parse(line) as ChangeJournalEntry);
+}
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'gcal-journal-'));
+  path = join(dir, 'journal.jsonl');
+  vi.stubEnv('XDG_CONFIG_HOME', dir);
+  vi.stubEnv('GOOGLE_CALENDAR_DATA_DIR', dir);
+  vi.stubEnv('GOOGLE_CALENDAR_JOURNAL_RETENTION_DAYS', '30');
+});
+
+beforeEach(async () => {
+  await rm(path, { force: true });
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('appendJournalEntry', () => {
+  it('appends entries in order, readable only by the owner', async () => {
+    const first = await appendJournalEntry(change('first'));
+    const second = await appendJournalEntry(change('second'));
+
+    expect((await readJournal()).map((entry) => entry.id)).toEqual([first!.id, second!.id]);
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+  });
+
+  it('drops entries past the retention period', async () => {
+    await seed([...entries(2, 31), ...entries(1, 29)]);
+    expect(await readJournal()).toHaveLength(1);
+
+    const entry = await appendJournalEntry(change('new'));
+
+    expect((await fileEntries()).map((e) => e.id)).toEqual(['old0', entry!.id]);
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+  });
+
+  it('keeps at most 500 entries, dropping the oldest', async () => {
+    await seed(entries(500));
+
+    const entry = await appendJournalEntry(change('new'));
+
+    const kept = await fileEntries();
+    expect(kept).toHaveLength(500);
+    expect(kept[0]!.id).toBe('old1');
+    expect(kept[499]!.id).toBe(entry!.id);
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+  });
+
+  it('skips a line left partial by a crash', async () => {
+    await writeFile(path, `${JSON.stringify(entries(1)[0])}\n{"id":"cut`);
+    expect((await readJournal()).map((entry) => entry.id)).toEqual(['old0']);
+  });
+});
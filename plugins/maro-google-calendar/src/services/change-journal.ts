@@ -0,0 +1,98 @@
+/**
+ * Google Calendar MCP Server - Change Journal
+ * Append-only local record of event changes, with the state of each event before and after,
+ * so a change can be undone
+ */
+
+import { randomBytes } from 'node:crypto';
+import { appendFile, chmod, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ChangeJournalEntry } from '../types/calendar.types.js';
+import { loadConfig } from '../utils/config.js';
+import { CalendarError, ErrorCodes } from '../utils/error-handler.js';
+
+const JOURNAL_FILE = 'journal.jsonl';
+
+/**
+ * Entries hold full event payloads (guests, descriptions), so only the owner may read them
+ */
+const FILE_MODE = 0o600;
+
+/**
+ * Upper bound on entries, whatever the retention period
+ */
+const MAX_ENTRIES = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function readEntries(path: string): Promise<ChangeJournalEntry[]> {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw new CalendarError('Failed to read the change journal', ErrorCodes.FILE_NOT_FOUND);
+  }
+
+  const entries: ChangeJournalEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as ChangeJournalEntry);
+    } catch {
+      // A crash mid-append leaves at most one partial line; skip it
+    }
+  }
+  return entries;
+}
+
+function isRetained(entry: ChangeJournalEntry, retentionDays: number, now: number): boolean {
+  return now - Date.parse(entry.timestamp) < retentionDays * DAY_MS;
+}
+
+/**
+ * Journal entries still within the retention period, oldest first
+ */
+export async function readJournal(): Promise<ChangeJournalEntry[]> {
+  const config = await loadConfig();
+  if (config.journalRetentionDays === 0) return [];
+  const now = Date.now();
+  const entries = await readEntries(join(config.dataDir, JOURNAL_FILE));
+  return entries.filter((entry) => isRetained(entry, config.journalRetentionDays, now));
+}
+
+/**
+ * Record a change. Expired entries are dropped when the file is next written.
+ * Returns null when the journal is turned off.
+ */
+export async function appendJournalEntry(
+  change: Omit<ChangeJournalEntry, 'id' | 'timestamp'>
+): Promise<ChangeJournalEntry | null> {
+  const config = await loadConfig();
+  if (config.journalRetentionDays === 0) return null;
+
+  const entry: ChangeJournalEntry = {
+    id: randomBytes(4).toString('hex'),
+    timestamp: new Date().toISOString(),
+    ...change,
+  };
+  const path = join(config.dataDir, JOURNAL_FILE);
+  const now = Date.now();
+  const entries = await readEntries(path);
+  const kept = entries
+    .filter((e) => isRetained(e, config.journalRetentionDays, now))
+    .slice(-(MAX_ENTRIES - 1));
+
+  await mkdir(config.dataDir, { recursive: true });
+  if (kept.length === entries.length) {
+    await appendFile(path, `${JSON.stringify(entry)}\n`, { mode: FILE_MODE });
+  } else {
+    // Rewrite via a temp file and rename so pruning never loses the whole journal
+    const tempPath = `${path}.${process.pid}.tmp`;
+    const lines = [...kept, entry].map((e) => `${JSON.stringify(e)}\n`).join('');
+    await writeFile(tempPath, lines, { mode: FILE_MODE });
+    await chmod(tempPath, FILE_MODE);
+    await rename(tempPath, path);
+  }
+  return entry;
+}
@@ -0,0 +1,140 @@
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { OAuthTokens } from '../types/calendar.types.js';
+import { ErrorCodes } from '../utils/error-handler.js';
+import { EncryptedFileTokenStore, PlainFileTokenStore, createTokenStore } from './token-store.js';
+
+const TOKENS: OAuthTokens = {
+  access_token: 'ya29.access',
+  refresh_token: '1//refresh',
+  scope: 'https://www.googleapis.com/auth/calendar',
+  token_type: 'Bearer',
+  expiry_date: 1792400000000,
+};
+
+let dir: string;
+let count = 0;
+const tokenPath = () => join(dir, `tokens.${++count}.json`);
+const modeOf = async (path: string) => (await stat(path)).mode & 0o777;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'gcal-tokens-'));
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('EncryptedFileTokenStore', () => {
+  const store = new EncryptedFileTokenStore('correct horse battery staple');
+
+  it('reads back the tokens it saved, without writing them in the clear', async () => {
+    const path = tokenPath();
+    await store.save(path, TOKENS);
+
+    const content = await readFile(path, 'utf-8');
+    expect(content).not.toContain(TOKENS.refresh_token);
+    expect(JSON.parse(content)).toMatchObject({ version: 1, algorithm: 'aes-256-gcm', kdf: 'scrypt' });
+    expect(await store.load(path)).toEqual(TOKENS);
+  });
+
+  it('uses a new salt and IV for every save', async () => {
+    const path = tokenPath();
+    await store.save(path, TOKENS);
+    const first = JSON.parse(await readFile(path, 'utf-8'));
+    await store.save(path, TOKENS);
+    const second = JSON.parse(await readFile(path, 'utf-8'));
+
+    expect(second.salt).not.toBe(first.salt);
+    expect(second.iv).not.toBe(first.iv);
+  });
+
+  it('refuses to decrypt with the wrong passphrase', async () => {
+    const path = tokenPath();
+    await store.save(path, TOKENS);
+
+    await expect(new EncryptedFileTokenStore('wrong passphrase').load(path))
+      .rejects.toMatchObject({ code: ErrorCodes.AUTH_TOKEN_INVALID });
+  });
+
+  it('refuses a file that was tampered with', async () => {
+    const path = tokenPath();
+    await store.save(path, TOKENS);
+    const envelope = JSON.parse(await readFile(path, 'utf-8'));
+    const data = Buffer.from(envelope.data, 'base64');
+    data[0]! ^= 1;
+    await writeFile(path, JSON.stringify({ ...envelope, data: data.toString('base64') }));
+
+    await expect(store.load(path)).rejects.toMatchObject({ code: ErrorCodes.AUTH_TOKEN_INVALID });
+  });
+
+  it('encrypts an existing plaintext token file in place', async () => {
+    const path = tokenPath();
+    await writeFile(path, JSON.stringify(TOKENS), { mode: 0o644 });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await store.load(path)).toEqual(TOKENS);
+
+    const content = await readFile(path, 'utf-8');
+    expect(content).not.toContain(TOKENS.access_token);
+    expect(await modeOf(path)).toBe(0o600);
+    expect(await store.load(path)).toEqual(TOKENS);
+  });
+
+  it('writes files only the owner can read', async () => {
+    const path = tokenPath();
+    await store.save(path, TOKENS);
+    expect(await modeOf(path)).toBe(0o600);
+  });
+
+  it('returns null when there is no token file', async () => {
+    expect(await store.load(join(dir, 'missing.json'))).toBeNull();
+  });
+});
+
+describe('PlainFileTokenStore', () => {
+  const store = new PlainFileTokenStore();
+
+  it('reads back the tokens it saved, in a file only the owner can read', async () => {
+    const path = tokenPath();
+    await store.save(path, TOKENS);
+
+    expect(await store.load(path)).toEqual(TOKENS);
+    expect(await modeOf(path)).toBe(0o600);
+  });
+
+  it('asks for the secret instead of reading an encrypted file', async () => {
+    const path = tokenPath();
+    await new EncryptedFileTokenStore('secret').save(path, TOKENS);
+
+    await expect(store.load(path)).rejects.toMatchObject({ code: ErrorCodes.AUTH_NOT_CONFIGURED });
+  });
+});
+
+describe('createTokenStore', () => {
+  it('encrypts when a passphrase or key file is set', async () => {
+    const keyFile = join(dir, 'token.key');
+    await writeFile(keyFile, 'key file secret');
+
+    expect((await createTokenStore({ GOOGLE_CALENDAR_TOKEN_PASSPHRASE: 'secret' })).kind).toBe('encrypted');
+    expect((await createTokenStore({ GOOGLE_CALENDAR_TOKEN_KEY_FILE: keyFile })).kind).toBe('encrypted');
+  });
+
+  it('stays plain without a secret, or when asked to', async () => {
+    expect((await createTokenStore({})).kind).toBe('plain');
+    expect((await createTokenStore({ GOOGLE_CALENDAR_TOKEN_STORE: 'plain', GOOGLE_CALENDAR_TOKEN_PASSPHRASE: 'secret' })).kind)
+      .toBe('plain');
+  });
+
+  it('rejects an encrypted store without a secret and unknown store names', async () => {
+    await expect(createTokenStore({ GOOGLE_CALENDAR_TOKEN_STORE: 'encrypted' }))
+      .rejects.toMatchObject({ code: ErrorCodes.AUTH_NOT_CONFIGURED });
+    await expect(createTokenStore({ GOOGLE_CALENDAR_TOKEN_STORE: 'keychain' }))
+      .rejects.toMatchObject({ code: ErrorCodes.INVALID_INPUT });
+    await expect(createTokenStore({ GOOGLE_CALENDAR_TOKEN_KEY_FILE: join(dir, 'missing.key') }))
+      .rejects.toMatchObject({ code: ErrorCodes.FILE_NOT_FOUND });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Google Calendar MCP Server - Token Storage
+ * Pluggable persistence for OAuth2 tokens (plain or encrypted files)
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'node:crypto';
+import { readFile, writeFile, mkdir, rename, chmod, unlink } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { OAuthTokens } from '../types/calendar.types.js';
+import { CalendarError, ErrorCodes } from '../utils/error-handler.js';
+
+/**
+ * Token files grant full calendar access, so only the owner may read them
+ */
+const FILE_MODE = 0o600;
+
+const ENVELOPE_VERSION = 1;
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+/**
+ * Token store backend names
+ */
+export type TokenStoreKind = 'plain' | 'encrypted';
+
+/**
+ * Persistence backend for one token file per account
+ */
+export interface TokenStore {
+  readonly kind: TokenStoreKind;
+  /** Read tokens, or null if the file does not exist */
+  load(path: string): Promise<OAuthTokens | null>;
+  save(path: string, tokens: OAuthTokens): Promise<void>;
+  remove(path: string): Promise<void>;
+}
+
+/**
+ * On-disk format written by the encrypted backend
+ */
+interface EncryptedEnvelope {
+  version: number;
+  algorithm: typeof CIPHER;
+  kdf: 'scrypt';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+  return typeof value === 'object' && value !== null && (value as EncryptedEnvelope).algorithm === CIPHER;
+}
+
+function deriveKey(secret: string | Buffer, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(secret, salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+async function readJson(path: string): Promise<unknown | null> {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw new CalendarError('Failed to read tokens', ErrorCodes.FILE_NOT_FOUND);
+  }
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new CalendarError('Failed to load tokens', ErrorCodes.PARSE_ERROR);
+  }
+}
+
+/**
+ * Write via a temp file and rename so a crash never leaves a truncated token file
+ */
+async function writePrivateFile(path: string, content: string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tempPath = `${path}.${process.pid}.tmp`;
+  await writeFile(tempPath, content, { mode: FILE_MODE });
+  await chmod(tempPath, FILE_MODE);
+  await rename(tempPath, path);
+}
+
+async function removeFile(path: string): Promise<void> {
+  try {
+    await unlink(path);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+}
+
+/**
+ * Plain JSON backend (the original data/tokens.json format)
+ */
+export class PlainFileTokenStore implements TokenStore {
+  public readonly kind = 'plain' as const;
+
+  public async load(path: string): Promise<OAuthTokens | null> {
+    const content = await readJson(path);
+    if (isEncryptedEnvelope(content)) {
+      throw new CalendarError(
+        'Token file is encrypted. Set GOOGLE_CALENDAR_TOKEN_PASSPHRASE or GOOGLE_CALENDAR_TOKEN_KEY_FILE',
+        ErrorCodes.AUTH_NOT_CONFIGURED
+      );
+    }
+    return content as OAuthTokens | null;
+  }
+
+  public async save(path: string, tokens: OAuthTokens): Promise<void> {
+    await writePrivateFile(path, JSON.stringify(tokens, null, 2));
+  }
+
+  public async remove(path: string): Promise<void> {
+    await removeFile(path);
+  }
+}
+
+/**
+ * AES-256-GCM backend keyed by a passphrase or key file (scrypt, per-file salt).
+ * Plaintext token files found on load are re-encrypted in place.
+ */
+export class EncryptedFileTokenStore implements TokenStore {
+  public readonly kind = 'encrypted' as const;
+
+  constructor(private readonly secret: string | Buffer) {}
+
+  public async load(path: string): Promise<OAuthTokens | null> {
+    const content = await readJson(path);
+    if (content === null) return null;
+
+    if (!isEncryptedEnvelope(content)) {
+      // One-shot migration of a legacy plaintext file
+      const tokens = content as OAuthTokens;
+      await this.save(path, tokens);
+      console.error(`[google-calendar-mcp] Migrated plaintext tokens to encrypted storage: ${path}`);
+      return tokens;
+    }
+
+    if (content.version !== ENVELOPE_VERSION) {
+      throw new CalendarError(`Unsupported token file version: ${content.version}`, ErrorCodes.PARSE_ERROR);
+    }
+    try {
+      const key = await deriveKey(this.secret, Buffer.from(content.salt, 'base64'));
+      const decipher = createDecipheriv(CIPHER, key, Buffer.from(content.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(content.tag, 'base64'));
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(content.data, 'base64')),
+        decipher.final(),
+      ]);
+      return JSON.parse(plaintext.toString('utf-8')) as OAuthTokens;
+    } catch {
+      throw new CalendarError(
+        'Failed to decrypt tokens. Check the token passphrase or key file',
+        ErrorCodes.AUTH_TOKEN_INVALID
+      );
+    }
+  }
+
+  public async save(path: string, tokens: OAuthTokens): Promise<void> {
+    const salt = randomBytes(SALT_LENGTH);
+    const iv = randomBytes(IV_LENGTH);
+    const key = await deriveKey(this.secret, salt);
+    const cipher = createCipheriv(CIPHER, key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(tokens), 'utf-8'), cipher.final()]);
+    const envelope: EncryptedEnvelope = {
+      version: ENVELOPE_VERSION,
+      algorithm: CIPHER,
+      kdf: 'scrypt',
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+    await writePrivateFile(path, JSON.stringify(envelope, null, 2));
+  }
+
+  public async remove(path: string): Promise<void> {
+    await removeFile(path);
+  }
+}
+
+/**
+ * Build the token store selected by the environment:
+ * - GOOGLE_CALENDAR_TOKEN_STORE: "plain" or "encrypted" (default: encrypted when a secret is set)
+ * - GOOGLE_CALENDAR_TOKEN_PASSPHRASE: passphrase for the encrypted store
+ * - GOOGLE_CALENDAR_TOKEN_KEY_FILE: file whose contents are used as the secret instead
+ */
+export async function createTokenStore(env: NodeJS.ProcessEnv = process.env): Promise<TokenStore> {
+  const requested = env.GOOGLE_CALENDAR_TOKEN_STORE?.toLowerCase();
+  if (requested && requested !== 'plain' && requested !== 'encrypted') {
+    throw new CalendarError(
+      `Unknown token store: "${env.GOOGLE_CALENDAR_TOKEN_STORE}". Use "plain" or "encrypted"`,
+      ErrorCodes.INVALID_INPUT
+    );
+  }
+
+  let secret: string | Buffer | undefined = env.GOOGLE_CALENDAR_TOKEN_PASSPHRASE || undefined;
+  if (!secret && env.GOOGLE_CALENDAR_TOKEN_KEY_FILE) {
+    try {
+      secret = await readFile(env.GOOGLE_CALENDAR_TOKEN_KEY_FILE);
+    } catch {
+      throw new CalendarError(
+        `Token key file not readable: ${env.GOOGLE_CALENDAR_TOKEN_KEY_FILE}`,
+        ErrorCodes.FILE_NOT_FOUND
+      );
+    }
+  }
+
+  if (requested === 'plain' || (!requested && !secret)) {
+    return new PlainFileTokenStore();
+  }
+  if (!secret || secret.length === 0) {
+    throw new CalendarError(
+      'Encrypted token store requires GOOGLE_CALENDAR_TOKEN_PASSPHRASE or GOOGLE_CALENDAR_TOKEN_KEY_FILE',
+      ErrorCodes.AUTH_NOT_CONFIGURED
+    );
+  }
+  return new EncryptedFileTokenStore(secret);
+}
@@ -8,16 +8,39 @@ import { calendarService } from '../services/calendar.service.js';
 import { authService } from '../services/auth.service.js';
 import { withErrorHandling, createSuccessResult, createErrorResult } from '../utils/error-handler.js';
 import { formatForDisplay } from '../utils/date-parser.js';
+import type {
+  CalendarEvent,
+  ConflictCheck,
+  EventChangePreview,
+  EventConference,
+  EventSaveResult,
+  RecurrenceOccurrence,
+  UndoChangeResult,
+} from '../types/calendar.types.js';
 
 /**
  * Schema for list_events tool
  */
 export const ListEventsSchema = z.object({
-  timeMin: z.string().optional().describe('Start time for events (natural language, e.g., "today", "tomorrow", "next week")'),
-  timeMax: z.string().optional().describe('End time for events (natural language)'),
+  timeMin: z.string().optional().describe('Start of the range, or a whole range on its own (natural language, e.g., "today", "next week", "Q3", "between Friday and Monday", "the next 3 days")'),
+  timeMax: z.string().optional().describe('End of the range (natural language; a date includes that whole day)'),
   maxResults: z.number().min(1).max(2500).optional().default(10).describe('Maximum number of events to return'),
-  calendarId: z.string().optional().default('primary').describe('Calendar ID (default: primary)'),
+  calendarId: z.string().optional().default('primary').describe('Calendar ID or display name (default: primary)'),
   query: z.string().optional().describe('Free text search query'),
+  timeZone: z.string().optional().describe('Timezone for interpreting times and displaying results (e.g., "Asia/Seoul")'),
+  locale: z.enum(['auto', 'en', 'ko', 'ja', 'zh']).optional().describe('Language of the date phrases: auto (detect), en, ko, ja or zh (default: server setting)'),
+  showDeleted: z.boolean().optional().default(false).describe('Include cancelled events'),
+  singleEvents: z.boolean().optional().default(true).describe('Expand recurring events into occurrences; false lists each series once'),
+  orderBy: z.enum(['startTime', 'updated']).optional().describe('Sort order (default: startTime; startTime requires singleEvents)'),
+  eventTypes: z.array(z.enum(['default', 'focusTime', 'outOfOffice', 'workingLocation', 'birthday', 'fromGmail'])).optional().describe('Only these event types (e.g., ["outOfOffice"])'),
+  attendee: z.string().email().optional().describe('Only events this email attends or organizes'),
+  responseStatus: z.enum(['needsAction', 'declined', 'tentative', 'accepted']).optional().describe('Only events where your response is this (needsAction = not answered yet)'),
+  updatedMin: z.string().optional().describe('Only events modified since this time (natural language)'),
+  privateExtendedProperties: z.record(z.string()).optional().describe('Match private extended properties (e.g., {"project": "apollo"})'),
+  sharedExtendedProperties: z.record(z.string()).optional().describe('Match shared extended properties'),
+  pageToken: z.string().optional().describe('nextPageToken from a previous call with the same filters, to get the next page'),
+  fetchAll: z.boolean().optional().default(false).describe('Follow every page instead of stopping at maxResults (capped at 2500 events)'),
+  account: z.string().optional().describe('Account name (default: the configured default account)'),
 });
 
 export type ListEventsArgs = z.infer<typeof ListEventsSchema>;
@@ -29,16 +52,29 @@ export const CreateEventSchema = z.object({
   summary: z.string().min(1).describe('Event title/summary'),
   description: z.string().optional().describe('Event description'),
   location: z.string().optional().describe('Event location'),
-  startTime: z.string().describe('Start time (natural language, e.g., "tomorrow at 2pm", "next Monday 10am")'),
+  startTime: z.string().describe('Start time (natural language, e.g., "tomorrow at 2pm", "next Monday 10am", "내일 오후 3시", "来週の金曜日 10時")'),
   endTime: z.string().optional().describe('End time (natural language)'),
-  duration: z.string().optional().describe('Duration if no end time (e.g., "1 hour", "30 minutes")'),
+  duration: z.string().optional().describe('Duration if no end time (e.g., "1 hour", "90m", "1.5 hours", "half an hour", "3 days" for an all-day span, "PT45M", "1시간 30분")'),
   timeZone: z.string().optional().describe('Timezone (e.g., "America/New_York", "Asia/Seoul")'),
+  locale: z.enum(['auto', 'en', 'ko', 'ja', 'zh']).optional().describe('Language of the date phrases: auto (detect), en, ko, ja or zh (default: server setting)'),
   attendees: z.array(z.string().email()).optional().describe('List of attendee email addresses'),
+  optionalAttendees: z.array(z.string().email()).optional().describe('Optional attendee email addresses'),
+  rooms: z.array(z.string().email()).optional().describe('Meeting room (resource calendar) email addresses'),
+  guestsCanModify: z.boolean().optional().describe('Let guests edit the event'),
+  guestsCanInviteOthers: z.boolean().optional().describe('Let guests invite other people'),
+  guestsCanSeeOtherGuests: z.boolean().optional().describe('Let guests see the guest list'),
   reminders: z.array(z.object({
     method: z.enum(['email', 'popup']),
     minutes: z.number().min(0),
   })).optional().describe("Reminders (e.g., [{\"method\": \"popup\", \"minutes\": 10}])"),
-  calendarId: z.string().optional().default('primary').describe('Calendar ID (default: primary)'),
+  recurrence: z.union([z.string(), z.array(z.string())]).optional().describe('Repeat rule: a phrase (e.g., "every other Tuesday until March", "weekdays at 9am", "monthly on the 15th, 6 times") or RFC 5545 RRULE/EXDATE/RDATE lines'),
+  addConference: z.boolean().optional().default(false).describe('Attach a new Google Meet link'),
+  sendUpdates: z.enum(['all', 'externalOnly', 'none']).optional().default('all').describe('Who gets an invitation email: all guests, only guests outside your organization (externalOnly), or none'),
+  calendarId: z.string().optional().default('primary').describe('Calendar ID or display name (default: primary)'),
+  conflictPolicy: z.enum(['ask', 'allow', 'warn', 'reject', 'shift']).optional().default('ask').describe('When the time overlaps busy events: ask (save nothing and return the conflicts to confirm), allow (do not check), warn (save and report them), reject (fail) or shift (move to the next free slot in working hours)'),
+  conflictCalendars: z.enum(['target', 'owned']).optional().default('target').describe('Calendars checked for conflicts: the event\'s calendar, or also every calendar you own'),
+  dryRun: z.boolean().optional().default(false).describe('Resolve and validate everything and return the exact request without changing the calendar'),
+  account: z.string().optional().describe('Account name (default: the configured default account)'),
 });
 
 export type CreateEventArgs = z.infer<typeof CreateEventSchema>;
@@ -54,12 +90,27 @@ export const UpdateEventSchema = z.object({
   startTime: z.string().optional().describe('New start time (natural language)'),
   endTime: z.string().optional().describe('New end time (natural language)'),
   timeZone: z.string().optional().describe('Timezone'),
-  attendees: z.array(z.string().email()).optional().describe('Updated list of attendee emails'),
+  locale: z.enum(['auto', 'en', 'ko', 'ja', 'zh']).optional().describe('Language of the date phrases: auto (detect), en, ko, ja or zh (default: server setting)'),
+  attendees: z.array(z.string().email()).optional().describe('Replace the guest list with these emails; guests who stay keep their replies'),
+  addAttendees: z.array(z.string().email()).optional().describe('Guests to add, or optional guests to make required'),
+  optionalAttendees: z.array(z.string().email()).optional().describe('Optional guests to add, or guests to make optional'),
+  rooms: z.array(z.string().email()).optional().describe('Meeting rooms (resource calendar emails) to add'),
+  removeAttendees: z.array(z.string().email()).optional().describe('Guests or rooms to remove'),
+  guestsCanModify: z.boolean().optional().describe('Let guests edit the event'),
+  guestsCanInviteOthers: z.boolean().optional().describe('Let guests invite other people'),
+  guestsCanSeeOtherGuests: z.boolean().optional().describe('Let guests see the guest list'),
   reminders: z.array(z.object({
     method: z.enum(['email', 'popup']),
     minutes: z.number().min(0),
   })).optional().describe("Updated reminders"),
-  calendarId: z.string().optional().default('primary').describe('Calendar ID (default: primary)'),
+  addConference: z.boolean().optional().default(false).describe('Attach a new Google Meet link (ignored if the event already has a conference)'),
+  sendUpdates: z.enum(['all', 'externalOnly', 'none']).optional().default('all').describe('Who gets an update email: all guests, only guests outside your organization (externalOnly), or none'),
+  calendarId: z.string().optional().default('primary').describe('Calendar ID or display name (default: primary)'),
+  scope: z.enum(['this', 'following', 'all']).optional().default('this').describe('For recurring events: this occurrence only, this and following occurrences, or the whole series'),
+  conflictPolicy: z.enum(['ask', 'allow', 'warn', 'reject', 'shift']).optional().default('ask').describe('When a new time overlaps busy events: ask (save nothing and return the conflicts to confirm), allow (do not check), warn (save and report them), reject (fail) or shift (move to the next free slot in working hours)'),
+  conflictCalendars: z.enum(['target', 'owned']).optional().default('target').describe('Calendars checked for conflicts: the event\'s calendar, or also every calendar you own'),
+  dryRun: z.boolean().optional().default(false).describe('Resolve and validate everything and return a field-by-field diff against the current event without changing the calendar'),
+  account: z.string().optional().describe('Account name (default: the configured default account)'),
 });
 
 export type UpdateEventArgs = z.infer<typeof UpdateEventSchema>;
@@ -69,12 +120,371 @@ export type UpdateEventArgs = z.infer<typeof UpdateEventSchema>;
  */
 export const DeleteEventSchema = z.object({
   eventId: z.string().min(1).describe('Event ID to delete'),
-  calendarId: z.string().optional().default('primary').describe('Calendar ID (default: primary)'),
-  sendUpdates: z.enum(['all', 'externalOnly', 'none']).optional().default('all').describe('Whether to send update notifications'),
+  calendarId: z.string().optional().default('primary').describe('Calendar ID or display name (default: primary)'),
+  sendUpdates: z.enum(['all', 'externalOnly', 'none']).optional().default('all').describe('Who gets a cancellation email: all guests, only guests outside your organization (externalOnly), or none'),
+  scope: z.enum(['this', 'following', 'all']).optional().default('this').describe('For recurring events: this occurrence only, this and following occurrences, or the whole series'),
+  dryRun: z.boolean().optional().default(false).describe('Show what would be deleted without deleting it'),
+  account: z.string().optional().describe('Account name (default: the configured default account)'),
 });
 
 export type DeleteEventArgs = z.infer<typeof DeleteEventSchema>;
 
+/**
+ * Schema for move_event tool
+ */
+export const MoveEventSchema = z.object({
+  eventId: z.string().min(1).describe('Event ID to move. For a recurring event, the ID of the series'),
+  calendarId: z.string().optional().default('primary').describe('Calendar ID or display name the event is on now (default: primary)'),
+  destinationCalendarId: z.string().min(1).describe('Calendar ID or display name to move the event to; it becomes the organizer'),
+  sendUpdates: z.enum(['all', 'externalOnly', 'none']).optional().default('all').describe('Who gets an email about the change: all guests, only guests outside your organization (externalOnly), or none'),
+  dryRun: z.boolean().optional().default(false).describe('Check the move and show the request without moving the event'),
+  account: z.string().optional().describe('Account name (default: the configured default account)'),
+});
+
+export type MoveEventArgs = z.infer<typeof MoveEventSchema>;
+
+/**
+ * Schema for respond_to_event tool
+ */
+export const RespondToEventSchema = z.object({
+  response: z.enum(['accepted', 'declined', 'tentative']).describe('Your reply'),
+  eventId: z.string().min(1).optional().describe('Event to reply to. Omit and give timeMin to reply to every invitation in a range'),
+  timeMin: z.string().optional().describe('Bulk mode: start of the range (natural language, e.g., "Friday 12pm", or a range like "Friday")'),
+  timeMax: z.string().optional().describe('Bulk mode: end of the range (natural language)'),
+  query: z.string().optional().describe('Bulk mode: only invitations matching this text'),
+  comment: z.string().optional().describe('Note to the organizer'),
+  proposedStartTime: z.string().optional().describe('Propose another start time (single event only); sent to the organizer in the comment'),
+  proposedEndTime: z.string().optional().describe('End of the proposed time (default: the event\'s length)'),
+  scope: z.enum(['this', 'all']).optional().default('this').describe('For recurring events: reply to this occurrence only, or to the whole series'),
+  calendarId: z.string().optional().default('primary').describe('Calendar ID or display name (default: primary)'),
+  timeZone: z.string().optional().describe('Timezone for the dates (default: system timezone)'),
+  locale: z.enum(['auto', 'en', 'ko', 'ja', 'zh']).optional().describe('Language of the date phrases: auto (detect), en, ko, ja or zh (default: server setting)'),
+  sendUpdates: z.enum(['all', 'externalOnly', 'none']).optional().default('all').describe('Whether the organizer gets your reply by email: all, externalOnly (only if outside your organization) or none'),
+  dryRun: z.boolean().optional().default(false).describe('List the invitations that would get the reply without sending it'),
+  account: z.string().optional().describe('Account name (default: the configured default account)'),
+});
+
+export type RespondToEventArgs = z.infer<typeof RespondToEventSchema>;
+
+/**
+ * Schema for get_event tool
+ */
+export const GetEventSchema = z.object({
+  eventId: z.string().min(1).describe('Event ID to fetch'),
+  calendarId: z.string().optional().default('primary').describe('Calendar ID or display name (default: primary)'),
+  account: z.string().optional().describe('Account name (default: the configured default account)'),
+});
+
+export type GetEventArgs = z.infer<typeof GetEventSchema>;
+
+/**
+ * Schema for list_calendars tool
+ */
+export const ListCalendarsSchema = z.object({
+  showHidden: z.boolean().optional().default(false).describe('Include calendars hidden from the calendar list'),
+  minAccessRole: z.enum(['freeBusyReader', 'reader', 'writer', 'owner']).optional().describe('Only return calendars with at least this access role'),
+  account: z.string().optional().describe('Account name (default: the configured default account)'),
+});
+
+export type ListCalendarsArgs = z.infer<typeof ListCalendarsSchema>;
+
+/**
+ * Schema for get_calendar tool
+ */
+export const GetCalendarSchema = z.object({
+  calendarId: z.string().min(1).describe('Calendar ID or display name'),
+  account: z.string().optional().describe('Account name (default: the configured default account)'),
+});
+
+export type GetCalendarArgs = z.infer<typeof GetCalendarSchema>;
+
+/**
+ * Schema for create_calendar tool
+ */
+export const CreateCalendarSchema = z.object({
+  summary: z.string().min(1).describe('Calendar name'),
+  description: z.string().optional().describe('Calendar description'),
+  timeZone: z.string().optional().describe('Default time zone (e.g., "Asia/Seoul"; default: system time zone)'),
+  account: z.string().optional().describe('Account name (default: the configured default account)'),
+});
+
+export type CreateCalendarArgs = z.infer<typeof CreateCalendarSchema>;
+
+/**
+ * Schema for update_calendar tool
+ */
+export const UpdateCalendarSchema = z.object({
+  calendarId: z.string().min(1).describe('Calendar ID or display name'),
+  summary: z.string().min(1).optional().describe('New calendar name'),
+  description: z.string().optional().describe('New calendar description'),
+  timeZone: z.string().optional().describe('New default time zone'),
+  account: z.string().optional().describe('Account name (default: the configured default account)'),
+});
+
+export type UpdateCalendarArgs = z.infer<typeof UpdateCalendarSchema>;
+
+/**
+ * Schema for delete_calendar tool
+ */
+export const DeleteCalendarSchema = z.object({
+  calendarId: z.string().min(1).describe('Calendar ID or display name of a secondary calendar'),
+  account: z.string().optional().describe('Account name (default: the configured default account)'),
+});
+
+export type DeleteCalendarArgs = z.infer<typeof DeleteCalendarSchema>;
+
+/**
+ * Schema for list_calendar_shares tool
+ */
+export const ListCalendarSharesSchema = z.object({
+  calendarId: z.string().min(1).describe('Calendar ID or display name'),
+  account: z.string().optional().describe('Account name (default: the configured default account)'),
+});
+
+export type ListCalendarSharesArgs = z.infer<typeof ListCalendarSharesSchema>;
+
+/**
+ * Schema for share_calendar tool
+ */
+export const ShareCalendarSchema = z.object({
+  calendarId: z.string().min(1).describe('Calendar ID or display name'),
+  scopeType: z.enum(['user', 'group', 'domain', 'default']).optional().default('user').describe('Share with a user, a group, a whole domain, or the public (default)'),
+  scopeValue: z.string().optional().describe('Email of the user or group, or the domain name (omit for "default")'),
+  role: z.enum(['freeBusyReader', 'reader', 'writer', 'owner']).describe('Access role to grant'),
+  sendNotifications: z.boolean().optional().default(true).describe('Email the new member about the share'),
+  account: z.string().optional().describe('Account name (default: the configured default account)'),
+});
+
+export type ShareCalendarArgs = z.infer<typeof ShareCalendarSchema>;
+
+/**
+ * Schema for revoke_calendar_share tool
+ */
+export const RevokeCalendarShareSchema = z.object({
+  calendarId: z.string().min(1).describe('Calendar ID or display name'),
+  ruleId: z.string().optional().describe('ACL rule ID from list_calendar_shares'),
+  scopeType: z.enum(['user', 'group', 'domain', 'default']).optional().describe('Scope type of the share (with scopeValue, instead of ruleId)'),
+  scopeValue: z.string().optional().describe('Email or domain of the share (instead of ruleId)'),
+  account: z.string().optional().describe('Account name (default: the configured default account)'),
+});
+
+export type RevokeCalendarShareArgs = z.infer<typeof RevokeCalendarShareSchema>;
+
+/**
+ * Schema for find_free_slots tool
+ */
+export const FindFreeSlotsSchema = z.object({
+  attendees: z.array(z.string().email()).optional().describe('Required attendee emails whose calendars must be free'),
+  optionalAttendees: z.array(z.string().email()).optional().describe('Optional attendee emails; slots where they are free rank higher'),
+  calendarIds: z.array(z.string()).optional().describe('Your calendars to check, by ID or display name (default: ["primary"])'),
+  windowStart: z.string().optional().describe('Start of the search window (natural language, e.g., "next Monday"; default: now)'),
+  windowEnd: z.string().optional().describe('End of the search window (natural language; default: one week after the start)'),
+  duration: z.string().optional().default('1 hour').describe('Meeting length (e.g., "1 hour", "45 minutes", "1.5 hours", "PT45M")'),
+  workingHoursStart: z.string().optional().default('09:00').describe('Earliest start of day, HH:mm'),
+  workingHoursEnd: z.string().optional().default('18:00').describe('Latest end of day, HH:mm'),
+  workingDays: z.array(z.number().int().min(0).max(6)).optional().describe('Days of week to consider, 0 = Sunday (default: Monday-Friday)'),
+  timeZone: z.string().optional().describe('Timezone for working hours and results (e.g., "Asia/Seoul")'),
+  locale: z.enum(['auto', 'en', 'ko', 'ja', 'zh']).optional().describe('Language of the date phrases: auto (detect), en, ko, ja or zh (default: server setting)'),
+  granularityMinutes: z.number().int().min(5).max(240).optional().default(30).describe('Spacing between candidate start times in minutes'),
+  maxResults: z.number().int().min(1).max(50).optional().default(10).describe('Maximum number of slots to return'),
+  account: z.string().optional().describe('Account name (default: the configured default account)'),
+});
+
+export type FindFreeSlotsArgs = z.infer<typeof FindFreeSlotsSchema>;
+
+/**
+ * Schema for preview_recurrence tool
+ */
+export const PreviewRecurrenceSchema = z.object({
+  startTime: z.string().describe('First occurrence (natural language, e.g., "next Tuesday 10am")'),
+  recurrence: z.union([z.string(), z.array(z.string())]).describe('Repeat rule: a phrase (e.g., "every other Tuesday until March", "weekdays at 9am", "monthly on the 15th, 6 times") or RFC 5545 RRULE/EXDATE/RDATE lines'),
+  timeZone: z.string().optional().describe('Timezone (e.g., "America/New_York", "Asia/Seoul")'),
+  locale: z.enum(['auto', 'en', 'ko', 'ja', 'zh']).optional().describe('Language of the date phrases: auto (detect), en, ko, ja or zh (default: server setting)'),
+  count: z.number().int().min(1).max(50).optional().default(5).describe('Number of occurrences to list'),
+});
+
+export type PreviewRecurrenceArgs = z.infer<typeof PreviewRecurrenceSchema>;
+
+/**
+ * Schema for list_changes tool
+ */
+export const ListChangesSchema = z.object({
+  limit: z.number().int().min(1).max(100).optional().default(20).describe('Number of recent changes to list'),
+});
+
+export type ListChangesArgs = z.infer<typeof ListChangesSchema>;
+
+/**
+ * Schema for undo_last_change tool
+ */
+export const UndoLastChangeSchema = z.object({
+  force: z.boolean().optional().default(false).describe('Overwrite events that were edited after the change'),
+  sendUpdates: z.enum(['all', 'externalOnly', 'none']).optional().default('all').describe('Who gets an email about the restored events: all guests, only guests outside your organization (externalOnly), or none'),
+});
+
+export type UndoLastChangeArgs = z.infer<typeof UndoLastChangeSchema>;
+
+/**
+ * Schema for undo_change tool
+ */
+export const UndoChangeSchema = UndoLastChangeSchema.extend({
+  changeId: z.string().min(1).describe('Change ID from list_changes'),
+});
+
+export type UndoChangeArgs = z.infer<typeof UndoChangeSchema>;
+
+/**
+ * Schema for auth_status tool
+ */
+export const AuthStatusSchema = z.object({
+  account: z.string().optional().describe('Account name to check or start signing in (default: all known accounts)'),
+});
+
+export type AuthStatusArgs = z.infer<typeof AuthStatusSchema>;
+
+/**
+ * Schema for sign_out tool
+ */
+export const SignOutSchema = z.object({
+  account: z.string().optional().describe('Account name to sign out (default: the configured default account)'),
+});
+
+export type SignOutArgs = z.infer<typeof SignOutSchema>;
+
+/**
+ * Schema for authenticate tool
+ */
+export const AuthenticateSchema = z.object({
+  code: z.string().min(1).describe('Authorization code shown by Google after granting access at the authUrl'),
+  account: z.string().optional().describe('Account name to sign in (default: the configured default account)'),
+});
+
+export type AuthenticateArgs = z.infer<typeof AuthenticateSchema>;
+
+/**
+ * Result messages for update_event and delete_event by recurrence scope
+ */
+const SCOPE_MESSAGES = {
+  this: { updated: 'Event updated successfully', deleted: 'Event deleted successfully' },
+  following: {
+    updated: 'This and following events updated (the series was split)',
+    deleted: 'This and following events deleted',
+  },
+  all: { updated: 'All events in the series updated', deleted: 'All events in the series deleted' },
+} as const;
+
+/**
+ * Format expanded occurrences for display (all-day occurrences stay as dates)
+ */
+function displayOccurrences(occurrences: RecurrenceOccurrence[], timeZone?: string): string[] {
+  return occurrences.map((o) => (o.start.includes('T') ? formatForDisplay(o.start, timeZone) : o.start));
+}
+
+/**
+ * Guest list for tool output: each guest's reply and whether they are optional or a room
+ */
+function guestList(event: CalendarEvent) {
+  return event.attendees?.map((a) => ({
+    email: a.email,
+    responseStatus: a.responseStatus,
+    optional: a.optional || undefined,
+    room: a.resource || undefined,
+  }));
+}
+
+/**
+ * Join details for tool output: link, conference ID and phone dial-ins
+ */
+function conferenceDetails(conference: EventConference | undefined) {
+  if (!conference) return undefined;
+  const dialIn = conference.entryPoints
+    .filter((e) => e.entryPointType === 'phone')
+    .map((e) => ({ number: e.label ?? e.uri.replace(/^tel:/, ''), pin: e.pin, regionCode: e.regionCode }));
+  return {
+    joinUrl: conference.joinUrl,
+    conferenceId: conference.conferenceId,
+    solution: conference.solution,
+    dialIn: dialIn.length > 0 ? dialIn : undefined,
+    status: conference.status && conference.status !== 'success' ? conference.status : undefined,
+  };
+}
+
+/**
+ * Conflicts and shifts for tool output, with times in the event's zone
+ */
+function conflictFields(check: ConflictCheck | undefined, timeZone?: string) {
+  if (!check || check.conflicts.length === 0) return {};
+  return {
+    conflicts: check.conflicts.map((c) => ({
+      summary: c.summary,
+      start: formatForDisplay(c.start, timeZone),
+      end: formatForDisplay(c.end, timeZone),
+      eventId: c.eventId,
+      calendarId: c.calendarId,
+    })),
+    shiftedFrom: check.shiftedFrom
+      ? { start: formatForDisplay(check.shiftedFrom.start, timeZone), end: formatForDisplay(check.shiftedFrom.end, timeZone) }
+      : undefined,
+  };
+}
+
+/**
+ * Tool output when the ask policy held back a create or update because of conflicts
+ */
+function confirmationResult(result: EventSaveResult, action: 'created' | 'updated') {
+  const { event } = result;
+  const count = result.conflictCheck?.conflicts.length ?? 0;
+  return {
+    saved: false,
+    needsConfirmation: true,
+    summary: event.summary,
+    start: event.start.dateTime ? formatForDisplay(event.start.dateTime, event.start.timeZone) : event.start.date,
+    end: event.end.dateTime ? formatForDisplay(event.end.dateTime, event.end.timeZone) : event.end.date,
+    ...conflictFields(result.conflictCheck, event.start.timeZone),
+    message: `The time overlaps ${count} busy event${count === 1 ? '' : 's'}, so nothing was ${action}. `
+      + 'Confirm with the user, then call again with conflictPolicy "allow" to keep this time or "shift" to move it to the next free slot.',
+  };
+}
+
+/**
+ * Result message for a saved create or update, noting conflicts it was saved with or moved away from
+ */
+function savedMessage(result: EventSaveResult, message: string): string {
+  const check = result.conflictCheck;
+  if (!check || check.conflicts.length === 0) return message;
+  if (check.shiftedFrom) return `${message} (moved to the next free slot)`;
+  const count = check.conflicts.length;
+  return `${message}, but it overlaps ${count} busy event${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Tool output for a dry run: the resolved event and the exact requests that were not sent
+ */
+function dryRunResult(preview: EventChangePreview) {
+  const { event } = preview;
+  return {
+    dryRun: true,
+    action: preview.action,
+    id: event.id || undefined,
+    summary: event.summary,
+    start: event.start.dateTime
+      ? formatForDisplay(event.start.dateTime, event.start.timeZone || preview.timeZone)
+      : event.start.date,
+    end: event.end.dateTime
+      ? formatForDisplay(event.end.dateTime, event.end.timeZone || preview.timeZone)
+      : event.end.date,
+    timeZone: event.start.timeZone || preview.timeZone,
+    attendees: event.attendees?.map((a) => a.email),
+    recurrence: event.recurrence,
+    conference: conferenceDetails(event.conference),
+    sendUpdates: preview.sendUpdates,
+    changes: preview.changes,
+    ...conflictFields(preview.conflictCheck, event.start.timeZone || preview.timeZone),
+    requests: preview.requests,
+    message: 'Dry run: nothing was changed. Call again without dryRun to apply it.',
+  };
+}
+
 /**
  * Tool handler for list_events
  */
@@ -86,26 +496,50 @@ export async function handleListEvents(args: ListEventsArgs) {
       maxResults: args.maxResults,
       calendarId: args.calendarId,
       query: args.query,
+      timeZone: args.timeZone,
+      locale: args.locale,
+      showDeleted: args.showDeleted,
+      singleEvents: args.singleEvents,
+      orderBy: args.orderBy,
+      eventTypes: args.eventTypes,
+      attendee: args.attendee,
+      responseStatus: args.responseStatus,
+      updatedMin: args.updatedMin,
+      privateExtendedProperties: args.privateExtendedProperties,
+      sharedExtendedProperties: args.sharedExtendedProperties,
+      pageToken: args.pageToken,
+      fetchAll: args.fetchAll,
+      account: args.account,
     });
 
-    // Format events for display
+    // Format events for display, in the requested time zone if one was given
+    const displayZone = (eventZone?: string) => (args.timeZone ? result.timeZone : eventZone);
     const formattedEvents = result.events.map((event) => ({
       id: event.id,
       summary: event.summary,
       start: event.start.dateTime
-        ? formatForDisplay(event.start.dateTime, event.start.timeZone)
+        ? formatForDisplay(event.start.dateTime, displayZone(event.start.timeZone))
         : event.start.date,
       end: event.end.dateTime
-        ? formatForDisplay(event.end.dateTime, event.end.timeZone)
+        ? formatForDisplay(event.end.dateTime, displayZone(event.end.timeZone))
         : event.end.date,
       location: event.location,
       description: event.description,
+      htmlLink: event.htmlLink,
+      eventType: event.eventType !== 'default' ? event.eventType : undefined,
+      status: event.status === 'cancelled' ? event.status : undefined,
+      myResponseStatus: event.attendees?.find((a) => a.self)?.responseStatus,
+      recurrence: event.recurrence,
+      recurringEventId: event.recurringEventId,
+      conference: conferenceDetails(event.conference),
     }));
 
     return {
       events: formattedEvents,
       count: formattedEvents.length,
       timeZone: result.timeZone,
+      truncated: result.truncated,
+      nextPageToken: result.nextPageToken,
     };
   });
 }
@@ -115,7 +549,7 @@ export async function handleListEvents(args: ListEventsArgs) {
  */
 export async function handleCreateEvent(args: CreateEventArgs) {
   return withErrorHandling(async () => {
-    const event = await calendarService.createEvent({
+    const input = {
       summary: args.summary,
       description: args.description,
       location: args.location,
@@ -123,10 +557,29 @@ export async function handleCreateEvent(args: CreateEventArgs) {
       endTime: args.endTime,
       duration: args.duration,
       timeZone: args.timeZone,
+      locale: args.locale,
       attendees: args.attendees,
+      optionalAttendees: args.optionalAttendees,
+      rooms: args.rooms,
+      guestsCanModify: args.guestsCanModify,
+      guestsCanInviteOthers: args.guestsCanInviteOthers,
+      guestsCanSeeOtherGuests: args.guestsCanSeeOtherGuests,
       reminders: args.reminders,
+      recurrence: args.recurrence,
+      addConference: args.addConference,
+      sendUpdates: args.sendUpdates,
       calendarId: args.calendarId,
-    });
+      conflictPolicy: args.conflictPolicy,
+      conflictCalendars: args.conflictCalendars,
+      account: args.account,
+    };
+    if (args.dryRun) {
+      return dryRunResult(await calendarService.previewCreateEvent(input));
+    }
+
+    const result = await calendarService.createEvent(input);
+    if (!result.saved) return confirmationResult(result, 'created');
+    const { event } = result;
 
     return {
       id: event.id,
@@ -138,7 +591,42 @@ export async function handleCreateEvent(args: CreateEventArgs) {
         ? formatForDisplay(event.end.dateTime, event.end.timeZone)
         : event.end.date,
       location: event.location,
-      message: 'Event created successfully',
+      attendees: guestList(event),
+      recurrence: event.recurrence,
+      conference: conferenceDetails(event.conference),
+      nextOccurrences: event.recurrence
+        ? displayOccurrences(calendarService.getOccurrences(event), event.start.timeZone)
+        : undefined,
+      sendUpdates: args.sendUpdates,
+      ...conflictFields(result.conflictCheck, event.start.timeZone),
+      changeId: result.changeId,
+      message: savedMessage(result, 'Event created successfully'),
+    };
+  });
+}
+
+/**
+ * Tool handler for preview_recurrence
+ */
+export async function handlePreviewRecurrence(args: PreviewRecurrenceArgs) {
+  return withErrorHandling(async () => {
+    const preview = await calendarService.previewRecurrence({
+      startTime: args.startTime,
+      recurrence: args.recurrence,
+      timeZone: args.timeZone,
+      locale: args.locale,
+      count: args.count,
+    });
+
+    return {
+      recurrence: preview.rules,
+      timeZone: preview.timeZone,
+      allDay: preview.isAllDay,
+      occurrences: displayOccurrences(preview.occurrences, preview.timeZone),
+      message: preview.unsupported.length > 0
+        ? `Nothing was saved. Google Calendar accepts ${preview.unsupported.join(', ')}, but this preview `
+          + 'cannot list the dates it produces. Pass the same recurrence to create_event to create the series.'
+        : 'Nothing was saved. Pass the same recurrence to create_event to create the series.',
     };
   });
 }
@@ -148,7 +636,7 @@ export async function handleCreateEvent(args: CreateEventArgs) {
  */
 export async function handleUpdateEvent(args: UpdateEventArgs) {
   return withErrorHandling(async () => {
-    const event = await calendarService.updateEvent({
+    const input = {
       eventId: args.eventId,
       summary: args.summary,
       description: args.description,
@@ -156,10 +644,31 @@ export async function handleUpdateEvent(args: UpdateEventArgs) {
       startTime: args.startTime,
       endTime: args.endTime,
       timeZone: args.timeZone,
+      locale: args.locale,
       attendees: args.attendees,
+      addAttendees: args.addAttendees,
+      optionalAttendees: args.optionalAttendees,
+      rooms: args.rooms,
+      removeAttendees: args.removeAttendees,
+      guestsCanModify: args.guestsCanModify,
+      guestsCanInviteOthers: args.guestsCanInviteOthers,
+      guestsCanSeeOtherGuests: args.guestsCanSeeOtherGuests,
       reminders: args.reminders,
+      addConference: args.addConference,
+      sendUpdates: args.sendUpdates,
       calendarId: args.calendarId,
-    });
+      scope: args.scope,
+      conflictPolicy: args.conflictPolicy,
+      conflictCalendars: args.conflictCalendars,
+      account: args.account,
+    };
+    if (args.dryRun) {
+      return dryRunResult(await calendarService.previewUpdateEvent(input));
+    }
+
+    const result = await calendarService.updateEvent(input);
+    if (!result.saved) return confirmationResult(result, 'updated');
+    const { event } = result;
 
     return {
       id: event.id,
@@ -171,7 +680,14 @@ export async function handleUpdateEvent(args: UpdateEventArgs) {
         ? formatForDisplay(event.end.dateTime, event.end.timeZone)
         : event.end.date,
       location: event.location,
-      message: 'Event updated successfully',
+      attendees: guestList(event),
+      recurrence: event.recurrence,
+      conference: conferenceDetails(event.conference),
+      scope: args.scope,
+      sendUpdates: args.sendUpdates,
+      ...conflictFields(result.conflictCheck, event.start.timeZone),
+      changeId: result.changeId,
+      message: savedMessage(result, SCOPE_MESSAGES[args.scope].updated),
     };
   });
 }
@@ -181,19 +697,396 @@ export async function handleUpdateEvent(args: UpdateEventArgs) {
  */
 export async function handleDeleteEvent(args: DeleteEventArgs) {
   return withErrorHandling(async () => {
-    await calendarService.deleteEvent({
+    const input = {
       eventId: args.eventId,
       calendarId: args.calendarId,
       sendUpdates: args.sendUpdates,
-    });
+      scope: args.scope,
+      account: args.account,
+    };
+    if (args.dryRun) {
+      return dryRunResult(await calendarService.previewDeleteEvent(input));
+    }
+
+    const result = await calendarService.deleteEvent(input);
 
     return {
       eventId: args.eventId,
-      message: 'Event deleted successfully',
+      scope: args.scope,
+      sendUpdates: args.sendUpdates,
+      changeId: result.changeId,
+      message: SCOPE_MESSAGES[args.scope].deleted,
+    };
+  });
+}
+
+/**
+ * Tool handler for move_event
+ */
+export async function handleMoveEvent(args: MoveEventArgs) {
+  return withErrorHandling(async () => {
+    const input = {
+      eventId: args.eventId,
+      calendarId: args.calendarId,
+      destinationCalendarId: args.destinationCalendarId,
+      sendUpdates: args.sendUpdates,
+      account: args.account,
+    };
+    if (args.dryRun) {
+      return dryRunResult(await calendarService.previewMoveEvent(input));
+    }
+
+    const { event, changeId } = await calendarService.moveEvent(input);
+
+    return {
+      id: event.id,
+      summary: event.summary,
+      calendarId: args.destinationCalendarId,
+      organizer: event.organizer?.email,
+      sendUpdates: args.sendUpdates,
+      changeId,
+      message: `Event moved to ${args.destinationCalendarId}`,
+    };
+  });
+}
+
+/**
+ * Tool handler for respond_to_event
+ */
+export async function handleRespondToEvent(args: RespondToEventArgs) {
+  return withErrorHandling(async () => {
+    const input = {
+      response: args.response,
+      eventId: args.eventId,
+      timeMin: args.timeMin,
+      timeMax: args.timeMax,
+      query: args.query,
+      comment: args.comment,
+      proposedStartTime: args.proposedStartTime,
+      proposedEndTime: args.proposedEndTime,
+      scope: args.scope,
+      calendarId: args.calendarId,
+      timeZone: args.timeZone,
+      locale: args.locale,
+      sendUpdates: args.sendUpdates,
+      account: args.account,
+    };
+    const result = args.dryRun
+      ? await calendarService.previewRespondToEvent(input)
+      : await calendarService.respondToEvent(input);
+
+    const count = result.responded.length;
+    const noun = `invitation${count === 1 ? '' : 's'}`;
+    return {
+      dryRun: args.dryRun || undefined,
+      response: result.response,
+      responded: result.responded.map(({ event, previousResponse }) => ({
+        id: event.id,
+        summary: event.summary,
+        start: event.start.dateTime
+          ? formatForDisplay(event.start.dateTime, event.start.timeZone || result.timeZone)
+          : event.start.date,
+        previousResponse,
+      })),
+      skipped: result.skipped.length > 0 ? result.skipped : undefined,
+      proposedTime: result.proposedTime && {
+        start: formatForDisplay(result.proposedTime.start, result.timeZone),
+        end: formatForDisplay(result.proposedTime.end, result.timeZone),
+      },
+      sendUpdates: result.sendUpdates,
+      requests: args.dryRun ? result.requests : undefined,
+      changeId: result.changeId,
+      message: args.dryRun
+        ? `Dry run: would reply "${result.response}" to ${count} ${noun}. Call again without dryRun to send it.`
+        : `Replied "${result.response}" to ${count} ${noun}`,
     };
   });
 }
 
+/**
+ * Tool handler for get_event
+ */
+export async function handleGetEvent(args: GetEventArgs) {
+  return withErrorHandling(async () => {
+    const event = await calendarService.getEvent(args.eventId, args.calendarId, args.account);
+
+    const responseSummary = { accepted: 0, declined: 0, tentative: 0, needsAction: 0 };
+    for (const attendee of event.attendees || []) {
+      responseSummary[attendee.responseStatus || 'needsAction'] += 1;
+    }
+
+    return {
+      id: event.id,
+      summary: event.summary,
+      description: event.description,
+      location: event.location,
+      start: event.start.dateTime
+        ? formatForDisplay(event.start.dateTime, event.start.timeZone)
+        : event.start.date,
+      end: event.end.dateTime
+        ? formatForDisplay(event.end.dateTime, event.end.timeZone)
+        : event.end.date,
+      isAllDay: !event.start.dateTime,
+      timeZone: event.start.timeZone,
+      status: event.status,
+      organizer: event.organizer,
+      creator: event.creator,
+      attendees: event.attendees,
+      responseSummary,
+      // Google's defaults apply where the event does not say
+      guestPermissions: {
+        canModify: event.guestsCanModify ?? false,
+        canInviteOthers: event.guestsCanInviteOthers ?? true,
+        canSeeOtherGuests: event.guestsCanSeeOtherGuests ?? true,
+      },
+      reminders: event.reminders,
+      recurrence: event.recurrence,
+      recurringEventId: event.recurringEventId,
+      conference: event.conference,
+      htmlLink: event.htmlLink,
+      created: event.created,
+      updated: event.updated,
+    };
+  });
+}
+
+/**
+ * Tool handler for list_calendars
+ */
+export async function handleListCalendars(args: ListCalendarsArgs) {
+  return withErrorHandling(async () => {
+    const calendars = await calendarService.listCalendars({
+      showHidden: args.showHidden,
+      minAccessRole: args.minAccessRole,
+      account: args.account,
+    });
+
+    return {
+      calendars,
+      count: calendars.length,
+    };
+  });
+}
+
+/**
+ * Tool handler for get_calendar
+ */
+export async function handleGetCalendar(args: GetCalendarArgs) {
+  return withErrorHandling(async () => {
+    return calendarService.getCalendar(args.calendarId, args.account);
+  });
+}
+
+/**
+ * Tool handler for create_calendar
+ */
+export async function handleCreateCalendar(args: CreateCalendarArgs) {
+  return withErrorHandling(async () => {
+    const created = await calendarService.createCalendar({
+      summary: args.summary,
+      description: args.description,
+      timeZone: args.timeZone,
+      account: args.account,
+    });
+
+    return {
+      ...created,
+      message: 'Calendar created successfully',
+    };
+  });
+}
+
+/**
+ * Tool handler for update_calendar
+ */
+export async function handleUpdateCalendar(args: UpdateCalendarArgs) {
+  return withErrorHandling(async () => {
+    const updated = await calendarService.updateCalendar({
+      calendarId: args.calendarId,
+      summary: args.summary,
+      description: args.description,
+      timeZone: args.timeZone,
+      account: args.account,
+    });
+
+    return {
+      ...updated,
+      message: 'Calendar updated successfully',
+    };
+  });
+}
+
+/**
+ * Tool handler for delete_calendar
+ */
+export async function handleDeleteCalendar(args: DeleteCalendarArgs) {
+  return withErrorHandling(async () => {
+    const calendarId = await calendarService.deleteCalendar(args.calendarId, args.account);
+
+    return {
+      calendarId,
+      message: 'Calendar deleted successfully',
+    };
+  });
+}
+
+/**
+ * Tool handler for list_calendar_shares
+ */
+export async function handleListCalendarShares(args: ListCalendarSharesArgs) {
+  return withErrorHandling(async () => {
+    const shares = await calendarService.listCalendarShares(args.calendarId, args.account);
+
+    return {
+      shares,
+      count: shares.length,
+    };
+  });
+}
+
+/**
+ * Tool handler for share_calendar
+ */
+export async function handleShareCalendar(args: ShareCalendarArgs) {
+  return withErrorHandling(async () => {
+    const rule = await calendarService.shareCalendar({
+      calendarId: args.calendarId,
+      scopeType: args.scopeType,
+      scopeValue: args.scopeValue,
+      role: args.role,
+      sendNotifications: args.sendNotifications,
+      account: args.account,
+    });
+
+    return {
+      ...rule,
+      message: 'Calendar shared successfully',
+    };
+  });
+}
+
+/**
+ * Tool handler for revoke_calendar_share
+ */
+export async function handleRevokeCalendarShare(args: RevokeCalendarShareArgs) {
+  return withErrorHandling(async () => {
+    const ruleId = await calendarService.revokeCalendarShare({
+      calendarId: args.calendarId,
+      ruleId: args.ruleId,
+      scopeType: args.scopeType,
+      scopeValue: args.scopeValue,
+      account: args.account,
+    });
+
+    return {
+      ruleId,
+      message: 'Calendar share revoked successfully',
+    };
+  });
+}
+
+/**
+ * Tool handler for find_free_slots
+ */
+export async function handleFindFreeSlots(args: FindFreeSlotsArgs) {
+  return withErrorHandling(async () => {
+    const result = await calendarService.findFreeSlots({
+      attendees: args.attendees,
+      optionalAttendees: args.optionalAttendees,
+      calendarIds: args.calendarIds,
+      windowStart: args.windowStart,
+      windowEnd: args.windowEnd,
+      duration: args.duration,
+      workingHoursStart: args.workingHoursStart,
+      workingHoursEnd: args.workingHoursEnd,
+      workingDays: args.workingDays,
+      timeZone: args.timeZone,
+      locale: args.locale,
+      granularityMinutes: args.granularityMinutes,
+      maxResults: args.maxResults,
+      account: args.account,
+    });
+
+    const slots = result.slots.map((slot, index) => ({
+      rank: index + 1,
+      start: formatForDisplay(slot.start, result.timeZone),
+      end: formatForDisplay(slot.end, result.timeZone),
+      startTime: slot.start.toISOString(),
+      endTime: slot.end.toISOString(),
+      score: slot.score,
+      unavailableOptional: slot.unavailableOptional,
+    }));
+
+    return {
+      slots,
+      count: slots.length,
+      window: {
+        start: formatForDisplay(result.windowStart, result.timeZone),
+        end: formatForDisplay(result.windowEnd, result.timeZone),
+      },
+      durationMinutes: result.durationMinutes,
+      timeZone: result.timeZone,
+      warnings: result.warnings.length > 0 ? result.warnings : undefined,
+    };
+  });
+}
+
+/**
+ * Tool handler for list_changes
+ */
+export async function handleListChanges(args: ListChangesArgs) {
+  return withErrorHandling(async () => {
+    const changes = await calendarService.listChanges(args.limit);
+    return { changes, count: changes.length };
+  });
+}
+
+/**
+ * Tool output for an undo: what was reverted and the events it brought back or removed
+ */
+function undoResult(result: UndoChangeResult) {
+  return {
+    changeId: result.change.id,
+    action: result.change.action,
+    summary: result.change.summary,
+    undoId: result.undoId,
+    restored: result.restored.map((event) => ({
+      id: event.id,
+      summary: event.summary,
+      start: event.start.dateTime
+        ? formatForDisplay(event.start.dateTime, event.start.timeZone)
+        : event.start.date,
+      recurrence: event.recurrence,
+      conference: conferenceDetails(event.conference),
+    })),
+    removed: result.removed,
+    message: result.change.action === 'respond'
+      ? `Undid the reply to "${result.change.summary ?? 'untitled event'}"`
+      : `Undid ${result.change.action} of "${result.change.summary ?? 'untitled event'}"`,
+  };
+}
+
+/**
+ * Tool handler for undo_last_change
+ */
+export async function handleUndoLastChange(args: UndoLastChangeArgs) {
+  return withErrorHandling(async () => undoResult(await calendarService.undoChange({
+    force: args.force,
+    sendUpdates: args.sendUpdates,
+  })));
+}
+
+/**
+ * Tool handler for undo_change
+ */
+export async function handleUndoChange(args: UndoChangeArgs) {
+  return withErrorHandling(async () => undoResult(await calendarService.undoChange({
+    changeId: args.changeId,
+    force: args.force,
+    sendUpdates: args.sendUpdates,
+  })));
+}
+
 /**
  * Tool definitions for MCP server registration
  */
@@ -222,16 +1115,142 @@ export const toolDefinitions = [
     inputSchema: DeleteEventSchema,
     handler: handleDeleteEvent,
   },
+  {
+    name: 'move_event',
+    description: 'Move an event to another calendar, which becomes its organizer.',
+    inputSchema: MoveEventSchema,
+    handler: handleMoveEvent,
+  },
+  {
+    name: 'respond_to_event',
+    description: 'Accept, decline or tentatively accept an invitation, or every invitation in a time range.',
+    inputSchema: RespondToEventSchema,
+    handler: handleRespondToEvent,
+  },
+  {
+    name: 'get_event',
+    description: 'Get full details of a calendar event by ID, including attendee responses and conference links.',
+    inputSchema: GetEventSchema,
+    handler: handleGetEvent,
+  },
+  {
+    name: 'list_calendars',
+    description: 'List the calendars in the user\'s calendar list with their IDs, access roles, colors and time zones.',
+    inputSchema: ListCalendarsSchema,
+    handler: handleListCalendars,
+  },
+  {
+    name: 'get_calendar',
+    description: 'Get one calendar by ID or display name.',
+    inputSchema: GetCalendarSchema,
+    handler: handleGetCalendar,
+  },
+  {
+    name: 'create_calendar',
+    description: 'Create a secondary calendar.',
+    inputSchema: CreateCalendarSchema,
+    handler: handleCreateCalendar,
+  },
+  {
+    name: 'update_calendar',
+    description: 'Rename a calendar or change its description or default time zone.',
+    inputSchema: UpdateCalendarSchema,
+    handler: handleUpdateCalendar,
+  },
+  {
+    name: 'delete_calendar',
+    description: 'Delete a secondary calendar and all of its events.',
+    inputSchema: DeleteCalendarSchema,
+    handler: handleDeleteCalendar,
+  },
+  {
+    name: 'list_calendar_shares',
+    description: 'List who a calendar is shared with and at which role.',
+    inputSchema: ListCalendarSharesSchema,
+    handler: handleListCalendarShares,
+  },
+  {
+    name: 'share_calendar',
+    description: 'Share a calendar with a user, group or domain at a given role.',
+    inputSchema: ShareCalendarSchema,
+    handler: handleShareCalendar,
+  },
+  {
+    name: 'revoke_calendar_share',
+    description: 'Revoke a calendar share by rule ID or by user/group email.',
+    inputSchema: RevokeCalendarShareSchema,
+    handler: handleRevokeCalendarShare,
+  },
+  {
+    name: 'find_free_slots',
+    description: 'Find meeting slots where all attendees are free, within working hours.',
+    inputSchema: FindFreeSlotsSchema,
+    handler: handleFindFreeSlots,
+  },
+  {
+    name: 'preview_recurrence',
+    description: 'Translate a recurrence rule or phrase to RRULE and list the next occurrences without saving.',
+    inputSchema: PreviewRecurrenceSchema,
+    handler: handlePreviewRecurrence,
+  },
+  {
+    name: 'list_changes',
+    description: 'List recent event creates, updates, deletes and undos from the local change journal.',
+    inputSchema: ListChangesSchema,
+    handler: handleListChanges,
+  },
+  {
+    name: 'undo_last_change',
+    description: 'Undo the most recent event change not yet undone: remove a created event, revert an update or restore a deleted event.',
+    inputSchema: UndoLastChangeSchema,
+    handler: handleUndoLastChange,
+  },
+  {
+    name: 'undo_change',
+    description: 'Undo a specific change from list_changes.',
+    inputSchema: UndoChangeSchema,
+    handler: handleUndoChange,
+  },
 ] as const;
 
 /**
  * Get authentication status tool (special utility)
  */
-export async function handleGetAuthStatus() {
+export async function handleGetAuthStatus(args: AuthStatusArgs) {
   try {
     await authService.initialize();
-    return createSuccessResult(authService.getStatus());
+    if (args.account) {
+      // Registers the account so a sign-in URL is produced for it
+      await authService.getAccountStatus(args.account);
+    }
+    return createSuccessResult(await authService.getStatus());
   } catch (error) {
     return createErrorResult(error);
   }
 }
+
+/**
+ * Exchange an OAuth authorization code for tokens (special utility)
+ */
+export async function handleAuthenticate(args: AuthenticateArgs) {
+  return withErrorHandling(async () => {
+    await authService.exchangeCode(args.code.trim(), args.account);
+    return {
+      ...(await authService.getAccountStatus(args.account)),
+      message: 'Authentication successful',
+    };
+  });
+}
+
+/**
+ * Revoke and remove stored tokens (special utility)
+ */
+export async function handleSignOut(args: SignOutArgs) {
+  return withErrorHandling(async () => {
+    await authService.clearTokens(args.account);
+    return {
+      account: authService.resolveAccount(args.account),
+      message: 'Signed out successfully',
+    };
+  });
+}
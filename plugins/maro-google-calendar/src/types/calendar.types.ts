@@ -4,6 +4,30 @@
 
 import type { calendar_v3 } from 'googleapis';
 
+/**
+ * Resolved runtime configuration
+ */
+export interface ServerConfig {
+  credentialsPath: string;
+  dataDir: string;
+  readOnly: boolean;
+  scopes: string[];
+  defaultAccount?: string;
+  /** First day of the week for ranges like "this week" (0 = Sunday) */
+  weekStartsOn: number;
+  /** Language of natural-language dates when a tool call names none */
+  locale: DateLocale;
+  /** Days the change journal keeps entries for undo (0 = no journal) */
+  journalRetentionDays: number;
+  /** OAuth2 token endpoint, overriding the token_uri in credentials.json */
+  oauthTokenUrl?: string;
+}
+
+/**
+ * Language of natural-language dates and durations; 'auto' detects it from the script
+ */
+export type DateLocale = 'auto' | 'en' | 'ko' | 'ja' | 'zh';
+
 /**
  * OAuth2 credentials structure from Google Cloud Console
  */
@@ -28,6 +52,24 @@ export interface OAuthCredentials {
   };
 }
 
+/**
+ * Service account key file from Google Cloud Console (headless / domain-wide delegation)
+ */
+export interface ServiceAccountCredentials {
+  type: 'service_account';
+  project_id?: string;
+  private_key_id?: string;
+  private_key: string;
+  client_email: string;
+  client_id?: string;
+  token_uri?: string;
+}
+
+/**
+ * How the server authenticates with Google
+ */
+export type AuthMode = 'oauth' | 'service_account';
+
 /**
  * OAuth2 tokens structure
  */
@@ -39,14 +81,75 @@ export interface OAuthTokens {
   expiry_date: number;
 }
 
+/**
+ * Authentication status of a single named account
+ */
+export interface AccountStatus {
+  account: string;
+  isDefault: boolean;
+  /** User impersonated through domain-wide delegation (service account mode) */
+  subject?: string;
+  isAuthenticated: boolean;
+  needsRefresh: boolean;
+  expiresAt?: string;
+  authUrl?: string;
+}
+
+/**
+ * Authentication status across all known accounts
+ */
+export interface AuthStatus {
+  mode: AuthMode;
+  readOnly: boolean;
+  serviceAccountEmail?: string;
+  defaultAccount: string;
+  /** Token storage backend (OAuth mode only) */
+  tokenStore?: 'plain' | 'encrypted';
+  accounts: AccountStatus[];
+}
+
+/**
+ * Attendee reply to an invitation
+ */
+export type AttendeeResponseStatus = 'needsAction' | 'declined' | 'tentative' | 'accepted';
+
+/**
+ * Kind of calendar entry (regular event, focus time, out-of-office, ...)
+ */
+export type EventType = 'default' | 'focusTime' | 'outOfOffice' | 'workingLocation' | 'birthday' | 'fromGmail';
+
 /**
  * Calendar event attendee
  */
 export interface EventAttendee {
   email: string;
   displayName?: string;
-  responseStatus?: 'needsAction' | 'declined' | 'tentative' | 'accepted';
+  responseStatus?: AttendeeResponseStatus;
   optional?: boolean;
+  organizer?: boolean;
+  self?: boolean;
+  resource?: boolean;
+  comment?: string;
+}
+
+/**
+ * Changes to an event's guest list; see editAttendees for how they combine
+ */
+export interface AttendeeChanges {
+  attendees?: string[];
+  addAttendees?: string[];
+  optionalAttendees?: string[];
+  rooms?: string[];
+  removeAttendees?: string[];
+}
+
+/**
+ * What guests may do with an event
+ */
+export interface GuestPermissions {
+  guestsCanModify?: boolean;
+  guestsCanInviteOthers?: boolean;
+  guestsCanSeeOtherGuests?: boolean;
 }
 
 /**
@@ -57,10 +160,33 @@ export interface EventReminder {
   minutes: number;
 }
 
+/**
+ * Way to join a conference (video link, phone dial-in, SIP, ...)
+ */
+export interface ConferenceEntryPoint {
+  entryPointType: 'video' | 'phone' | 'sip' | 'more';
+  uri: string;
+  label?: string;
+  pin?: string;
+  regionCode?: string;
+}
+
+/**
+ * Conference attached to an event (e.g., Google Meet)
+ */
+export interface EventConference {
+  conferenceId?: string;
+  solution?: string;
+  joinUrl?: string;
+  entryPoints: ConferenceEntryPoint[];
+  /** State of a conference requested with addConference; join details appear on success */
+  status?: 'pending' | 'success' | 'failure';
+}
+
 /**
  * Base calendar event interface
  */
-export interface CalendarEvent {
+export interface CalendarEvent extends GuestPermissions {
   id: string;
   summary: string;
   description?: string;
@@ -94,12 +220,115 @@ export interface CalendarEvent {
   };
   recurrence?: string[];
   recurringEventId?: string;
+  conference?: EventConference;
+  eventType?: EventType;
+  extendedProperties?: {
+    private?: Record<string, string>;
+    shared?: Record<string, string>;
+  };
+}
+
+/**
+ * Calendar access role of the current user
+ */
+export type CalendarAccessRole = 'freeBusyReader' | 'reader' | 'writer' | 'owner';
+
+/**
+ * Calendar from the user's calendar list
+ */
+export interface CalendarInfo {
+  id: string;
+  summary: string;
+  summaryOverride?: string;
+  description?: string;
+  timeZone?: string;
+  accessRole?: CalendarAccessRole;
+  backgroundColor?: string;
+  foregroundColor?: string;
+  colorId?: string;
+  primary: boolean;
+  hidden: boolean;
+  selected: boolean;
+}
+
+/**
+ * Input for listing calendars
+ */
+export interface ListCalendarsInput {
+  showHidden?: boolean;
+  minAccessRole?: CalendarAccessRole;
+  account?: string;
+}
+
+/**
+ * Input for creating a secondary calendar
+ */
+export interface CreateCalendarInput {
+  summary: string;
+  description?: string;
+  timeZone?: string;
+  account?: string;
+}
+
+/**
+ * Input for updating a calendar's metadata
+ */
+export interface UpdateCalendarInput {
+  calendarId: string;
+  summary?: string;
+  description?: string;
+  timeZone?: string;
+  account?: string;
+}
+
+/**
+ * Who an access control rule applies to
+ */
+export type AclScopeType = 'user' | 'group' | 'domain' | 'default';
+
+/**
+ * Calendar sharing (ACL) rule
+ */
+export interface CalendarAclRule {
+  id: string;
+  role: CalendarAccessRole | 'none';
+  scopeType: AclScopeType;
+  scopeValue?: string;
 }
 
+/**
+ * Input for sharing a calendar
+ */
+export interface ShareCalendarInput {
+  calendarId: string;
+  scopeType: AclScopeType;
+  scopeValue?: string;
+  role: CalendarAccessRole;
+  sendNotifications?: boolean;
+  account?: string;
+}
+
+/**
+ * Input for revoking a calendar share, by rule ID or by scope
+ */
+export interface RevokeCalendarShareInput {
+  calendarId: string;
+  ruleId?: string;
+  scopeType?: AclScopeType;
+  scopeValue?: string;
+  account?: string;
+}
+
+/**
+ * Who Google emails about an event change: every guest, only guests outside your
+ * Google Workspace domain, or nobody
+ */
+export type SendUpdates = 'all' | 'externalOnly' | 'none';
+
 /**
  * Input for creating a new event
  */
-export interface CreateEventInput {
+export interface CreateEventInput extends GuestPermissions {
   summary: string;
   description?: string;
   location?: string;
@@ -107,17 +336,81 @@ export interface CreateEventInput {
   endTime?: string;
   duration?: string;
   timeZone?: string;
+  /** Language of startTime/endTime/duration (default: server config) */
+  locale?: DateLocale;
   attendees?: string[];
+  optionalAttendees?: string[];
+  /** Resource calendars, such as meeting rooms */
+  rooms?: string[];
   reminders?: EventReminder[];
-  recurrence?: string[];
-  sendNotifications?: boolean;
+  /** RRULE/EXDATE lines or a phrase such as "every other Tuesday until March" */
+  recurrence?: string | string[];
+  /** Attach a new Google Meet conference */
+  addConference?: boolean;
+  sendUpdates?: SendUpdates;
   calendarId?: string;
+  account?: string;
+  conflictPolicy?: ConflictPolicy;
+  conflictCalendars?: ConflictCalendars;
+}
+
+/**
+ * What to do when an event would overlap busy events:
+ * - ask: save nothing and return the conflicts so the user can confirm
+ * - allow: do not check
+ * - warn: save and report the conflicts
+ * - reject: fail with EVENT_CONFLICT
+ * - shift: move the event to the next free slot of the same length
+ */
+export type ConflictPolicy = 'ask' | 'allow' | 'warn' | 'reject' | 'shift';
+
+/**
+ * Calendars checked for conflicts: the event's own, or also every calendar the user owns
+ */
+export type ConflictCalendars = 'target' | 'owned';
+
+/**
+ * A busy event that overlaps the time being booked
+ */
+export interface EventConflict {
+  calendarId: string;
+  eventId: string;
+  summary?: string;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Conflicts found for a create or update, and where the event went if it was shifted
+ */
+export interface ConflictCheck {
+  policy: ConflictPolicy;
+  conflicts: EventConflict[];
+  /** Requested time, when the shift policy moved the event */
+  shiftedFrom?: TimeInterval;
 }
 
+/**
+ * Result of a create or update. With the ask policy and conflicts, `saved` is false and
+ * `event` is the event as it would have been saved.
+ */
+export interface EventSaveResult {
+  event: CalendarEvent;
+  saved: boolean;
+  conflictCheck?: ConflictCheck;
+  /** Journal entry recording the change */
+  changeId?: string;
+}
+
+/**
+ * Which occurrences of a recurring event a change applies to
+ */
+export type RecurrenceScope = 'this' | 'following' | 'all';
+
 /**
  * Input for updating an existing event
  */
-export interface UpdateEventInput {
+export interface UpdateEventInput extends AttendeeChanges, GuestPermissions {
   eventId: string;
   summary?: string;
   description?: string;
@@ -125,10 +418,17 @@ export interface UpdateEventInput {
   startTime?: string;
   endTime?: string;
   timeZone?: string;
-  attendees?: string[];
+  locale?: DateLocale;
   reminders?: EventReminder[];
-  sendNotifications?: boolean;
+  /** Attach a new Google Meet conference unless the event already has one */
+  addConference?: boolean;
+  sendUpdates?: SendUpdates;
   calendarId?: string;
+  scope?: RecurrenceScope;
+  account?: string;
+  /** Checked only when the start or end time changes */
+  conflictPolicy?: ConflictPolicy;
+  conflictCalendars?: ConflictCalendars;
 }
 
 /**
@@ -140,10 +440,25 @@ export interface ListEventsInput {
   maxResults?: number;
   calendarId?: string;
   timeZone?: string;
+  locale?: DateLocale;
   query?: string;
   showDeleted?: boolean;
   singleEvents?: boolean;
   orderBy?: 'startTime' | 'updated';
+  eventTypes?: EventType[];
+  /** Only events this address attends or organizes */
+  attendee?: string;
+  /** Only events where the user's own response is this */
+  responseStatus?: AttendeeResponseStatus;
+  /** Only events modified since this time */
+  updatedMin?: string;
+  privateExtendedProperties?: Record<string, string>;
+  sharedExtendedProperties?: Record<string, string>;
+  /** Continue from the nextPageToken of an earlier call with the same filters */
+  pageToken?: string;
+  /** Follow pages until every event is returned or the safety cap is reached */
+  fetchAll?: boolean;
+  account?: string;
 }
 
 /**
@@ -152,8 +467,207 @@ export interface ListEventsInput {
 export interface DeleteEventInput {
   eventId: string;
   calendarId?: string;
-  sendNotifications?: boolean;
-  sendUpdates?: 'all' | 'externalOnly' | 'none';
+  sendUpdates?: SendUpdates;
+  scope?: RecurrenceScope;
+  account?: string;
+}
+
+/**
+ * Result of a delete
+ */
+export interface DeleteEventResult {
+  /** Journal entry recording the delete */
+  changeId?: string;
+}
+
+/**
+ * Input for moving an event to another calendar, which becomes its organizer
+ */
+export interface MoveEventInput {
+  eventId: string;
+  /** Calendar the event is on now */
+  calendarId?: string;
+  destinationCalendarId: string;
+  sendUpdates?: SendUpdates;
+  account?: string;
+}
+
+/**
+ * Result of a move: the event as stored on the destination calendar
+ */
+export interface MoveEventResult {
+  event: CalendarEvent;
+  /** Journal entry recording the move */
+  changeId?: string;
+}
+
+/**
+ * A reply to an invitation
+ */
+export type RsvpResponse = Exclude<AttendeeResponseStatus, 'needsAction'>;
+
+/**
+ * Input for replying to invitations: one event by ID, or every invitation in a time range
+ */
+export interface RespondToEventInput {
+  response: RsvpResponse;
+  /** Omit to reply to every invitation between timeMin and timeMax */
+  eventId?: string;
+  timeMin?: string;
+  timeMax?: string;
+  /** In a time range, only events matching this text */
+  query?: string;
+  /** Note to the organizer */
+  comment?: string;
+  /** Suggest another time, added to the comment; single events only */
+  proposedStartTime?: string;
+  proposedEndTime?: string;
+  /** For an occurrence of a repeating event: reply to it alone or to the whole series */
+  scope?: 'this' | 'all';
+  calendarId?: string;
+  timeZone?: string;
+  locale?: DateLocale;
+  sendUpdates?: SendUpdates;
+  account?: string;
+}
+
+/**
+ * An event the reply was (or, in a dry run, would be) sent for
+ */
+export interface EventResponseChange {
+  event: CalendarEvent;
+  previousResponse?: AttendeeResponseStatus;
+}
+
+/**
+ * An event in range that was left alone, and why
+ */
+export interface SkippedEvent {
+  eventId: string;
+  summary?: string;
+  reason: string;
+}
+
+/**
+ * Outcome of replying to invitations
+ */
+export interface RespondToEventResult {
+  response: RsvpResponse;
+  responded: EventResponseChange[];
+  skipped: SkippedEvent[];
+  proposedTime?: TimeInterval;
+  timeZone: string;
+  sendUpdates: SendUpdates;
+  requests: EventWrite[];
+  /** Journal entry recording the replies */
+  changeId?: string;
+}
+
+/**
+ * One Calendar API write, as sent or as a dry run would send it
+ */
+export interface EventWrite {
+  method: 'insert' | 'update' | 'patch' | 'delete' | 'move';
+  calendarId: string;
+  eventId?: string;
+  /** For a move, the calendar the event moves to */
+  destination?: string;
+  sendUpdates: SendUpdates;
+  requestBody?: calendar_v3.Schema$Event;
+}
+
+/**
+ * A field that differs between the current event and the result of a change
+ */
+export interface EventFieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * What a create, update, delete or move would do, worked out without changing anything
+ */
+export interface EventChangePreview {
+  action: 'create' | 'update' | 'delete' | 'move';
+  calendarId: string;
+  timeZone: string;
+  sendUpdates: SendUpdates;
+  /** The event as it would be saved; for a delete, the event that would be removed */
+  event: CalendarEvent;
+  /** Differences from the current event, for updates and partial series deletes */
+  changes?: EventFieldChange[];
+  conflictCheck?: ConflictCheck;
+  requests: EventWrite[];
+}
+
+/**
+ * One event as a journaled change found it and left it. No `before` means the change created
+ * the event; no `after` means it deleted it.
+ */
+export interface ChangeEffect {
+  calendarId: string;
+  eventId: string;
+  /** For a move, the calendar the event left; calendarId is the one it moved to */
+  movedFrom?: string;
+  before?: calendar_v3.Schema$Event;
+  after?: calendar_v3.Schema$Event;
+}
+
+/**
+ * An entry in the local change journal
+ */
+export interface ChangeJournalEntry {
+  id: string;
+  timestamp: string;
+  action: 'create' | 'update' | 'delete' | 'move' | 'respond' | 'undo';
+  account?: string;
+  calendarId: string;
+  summary?: string;
+  /** For an undo, the entry it reverted */
+  undoes?: string;
+  effects: ChangeEffect[];
+}
+
+/**
+ * A journal entry as listed to the user
+ */
+export interface ChangeSummary {
+  id: string;
+  timestamp: string;
+  action: ChangeJournalEntry['action'];
+  account?: string;
+  calendarId: string;
+  summary?: string;
+  eventIds: string[];
+  undoes?: string;
+  /** ID of the undo that reverted this change */
+  undoneBy?: string;
+}
+
+/**
+ * Input for undoing a journaled change
+ */
+export interface UndoChangeInput {
+  /** Journal entry to undo; defaults to the latest change not yet undone */
+  changeId?: string;
+  /** Overwrite events that were edited after the change */
+  force?: boolean;
+  sendUpdates?: SendUpdates;
+}
+
+/**
+ * Outcome of an undo
+ */
+export interface UndoChangeResult {
+  /** The change that was reverted */
+  change: ChangeSummary;
+  /** Journal entry recording the undo itself */
+  undoId?: string;
+  /** Events as the undo restored them */
+  restored: CalendarEvent[];
+  /** IDs of events the undo removed */
+  removed: string[];
 }
 
 /**
@@ -162,7 +676,103 @@ export interface DeleteEventInput {
 export interface ListEventsResponse {
   events: CalendarEvent[];
   nextPageToken?: string;
+  /** More events match than were returned */
+  truncated: boolean;
+  timeZone?: string;
+}
+
+/**
+ * Half-open time interval [start, end)
+ */
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Input for the pure free-slot computation
+ */
+export interface FreeSlotQuery {
+  /** Busy intervals of required participants, keyed by calendar ID */
+  busy: Record<string, TimeInterval[]>;
+  /** Busy intervals of optional participants, keyed by calendar ID */
+  optionalBusy?: Record<string, TimeInterval[]>;
+  windowStart: Date;
+  windowEnd: Date;
+  durationMinutes: number;
+  timeZone: string;
+  workingHours: {
+    /** "HH:mm" */
+    start: string;
+    /** "HH:mm" */
+    end: string;
+    /** Days of week, 0 = Sunday */
+    days: number[];
+  };
+  granularityMinutes?: number;
+  maxResults?: number;
+}
+
+/**
+ * Candidate meeting slot
+ */
+export interface FreeSlot {
+  start: Date;
+  end: Date;
+  score: number;
+  unavailableOptional: string[];
+}
+
+/**
+ * Input for a free/busy query
+ */
+export interface FreeBusyInput {
+  calendarIds: string[];
+  timeMin: Date;
+  timeMax: Date;
+  timeZone?: string;
+  account?: string;
+}
+
+/**
+ * Free/busy result for one calendar or attendee
+ */
+export interface FreeBusyCalendar {
+  busy: TimeInterval[];
+  errors?: string[];
+}
+
+/**
+ * Input for finding free meeting slots
+ */
+export interface FindFreeSlotsInput {
+  attendees?: string[];
+  optionalAttendees?: string[];
+  calendarIds?: string[];
+  windowStart?: string;
+  windowEnd?: string;
+  duration?: string;
+  workingHoursStart?: string;
+  workingHoursEnd?: string;
+  workingDays?: number[];
   timeZone?: string;
+  locale?: DateLocale;
+  granularityMinutes?: number;
+  maxResults?: number;
+  account?: string;
+}
+
+/**
+ * Ranked free slots with the resolved search parameters
+ */
+export interface FindFreeSlotsResult {
+  slots: FreeSlot[];
+  windowStart: Date;
+  windowEnd: Date;
+  durationMinutes: number;
+  timeZone: string;
+  /** Calendars whose availability could not be read (e.g., no access) */
+  warnings: string[];
 }
 
 /**
@@ -174,10 +784,65 @@ export interface ParsedDateTime {
   isAllDay: boolean;
 }
 
+/**
+ * Parsed date range (end exclusive)
+ */
+export interface ParsedDateRange {
+  start: Date;
+  end: Date;
+  timeZone: string;
+  /** The input named an exact time, so start and end are the same instant */
+  isInstant: boolean;
+}
+
+/**
+ * Recurrence input normalized to RFC 5545 lines
+ */
+export interface ParsedRecurrence {
+  /** RRULE/EXRULE/RDATE/EXDATE lines as sent to Google */
+  rules: string[];
+  /** Time of day ("HH:mm") named in a phrase such as "weekdays at 9am" */
+  timeOfDay?: string;
+}
+
+/**
+ * One expanded occurrence of a recurring event
+ */
+export interface RecurrenceOccurrence {
+  /** RFC 3339 date-time, or YYYY-MM-DD for all-day events */
+  start: string;
+}
+
+/**
+ * Input for previewing a recurrence without creating an event
+ */
+export interface PreviewRecurrenceInput {
+  startTime: string;
+  recurrence: string | string[];
+  timeZone?: string;
+  locale?: DateLocale;
+  count?: number;
+}
+
+/**
+ * Recurrence rules together with the occurrences they produce
+ */
+export interface RecurrencePreview {
+  rules: string[];
+  timeZone: string;
+  isAllDay: boolean;
+  /** Empty when `unsupported` names RRULE parts the preview cannot expand */
+  occurrences: RecurrenceOccurrence[];
+  /** RRULE parts, such as BYSETPOS, that Google Calendar expands but the preview cannot */
+  unsupported: string[];
+}
+
 /**
  * Parsed duration result
  */
 export interface ParsedDuration {
+  /** Whole calendar days (weeks count as 7) */
+  days: number;
   hours: number;
   minutes: number;
   totalMinutes: number;
@@ -0,0 +1,67 @@
+/**
+ * Google Calendar MCP Server - Attendee Utility
+ * Builds and edits guest lists without losing the replies guests have already given
+ */
+
+import type { calendar_v3 } from 'googleapis';
+import type { AttendeeChanges } from '../types/calendar.types.js';
+import { CalendarError, ErrorCodes } from './error-handler.js';
+
+type Attendee = calendar_v3.Schema$EventAttendee;
+
+function emailKey(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Whether a create or update touches the guest list at all
+ */
+export function hasAttendeeChanges(changes: AttendeeChanges): boolean {
+  return [changes.attendees, changes.addAttendees, changes.optionalAttendees, changes.rooms, changes.removeAttendees]
+    .some((list) => list !== undefined);
+}
+
+/**
+ * Apply guest list changes. Guests who stay keep their reply, comment and flags:
+ * - attendees: replace the list (the organizer stays unless removed)
+ * - addAttendees: add required guests, or make existing optional guests required
+ * - optionalAttendees: add optional guests, or make existing guests optional
+ * - rooms: add resource calendars such as meeting rooms
+ * - removeAttendees: remove guests or rooms
+ */
+export function editAttendees(existing: Attendee[] | undefined, changes: AttendeeChanges): Attendee[] {
+  const removed = new Set((changes.removeAttendees ?? []).map(emailKey));
+  const added = [
+    ...(changes.attendees ?? []),
+    ...(changes.addAttendees ?? []),
+    ...(changes.optionalAttendees ?? []),
+    ...(changes.rooms ?? []),
+  ];
+  const clash = added.find((email) => removed.has(emailKey(email)));
+  if (clash) {
+    throw new CalendarError(`"${clash}" cannot be both added and removed`, ErrorCodes.INVALID_INPUT);
+  }
+
+  const current = new Map<string, Attendee>();
+  for (const attendee of existing ?? []) {
+    if (attendee.email) current.set(emailKey(attendee.email), attendee);
+  }
+  const result = new Map(
+    [...current].filter(([, attendee]) => !changes.attendees || attendee.organizer)
+  );
+
+  const upsert = (email: string, change: (attendee: Attendee) => Attendee) => {
+    const key = emailKey(email);
+    result.set(key, change(result.get(key) ?? current.get(key) ?? { email: email.trim() }));
+  };
+  const required = ({ optional: _optional, ...attendee }: Attendee): Attendee => attendee;
+
+  for (const email of changes.attendees ?? []) upsert(email, required);
+  for (const email of changes.addAttendees ?? []) upsert(email, required);
+  for (const email of changes.optionalAttendees ?? []) upsert(email, (a) => ({ ...a, optional: true }));
+  // Google only accepts the resource flag when the attendee is first added
+  for (const email of changes.rooms ?? []) upsert(email, (a) => (current.has(emailKey(email)) ? a : { ...a, resource: true }));
+  for (const key of removed) result.delete(key);
+
+  return [...result.values()];
+}
@@ -0,0 +1,201 @@
+/**
+ * Google Calendar MCP Server - Runtime Configuration
+ * Resolves credential/token locations and access scope from env vars, a config file and XDG defaults
+ */
+
+import { access, readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, isAbsolute, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { DateLocale, ServerConfig } from '../types/calendar.types.js';
+import { CalendarError, ErrorCodes } from './error-handler.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = resolve(__dirname, '../..');
+
+const APP_DIR_NAME = 'maro-google-calendar';
+
+/**
+ * Package-relative locations used before paths became configurable
+ */
+const LEGACY_CREDENTIALS_PATH = resolve(PROJECT_ROOT, 'config/credentials.json');
+const LEGACY_DATA_DIR = resolve(PROJECT_ROOT, 'data');
+
+export const SCOPES = {
+  readWrite: 'https://www.googleapis.com/auth/calendar',
+  readOnly: 'https://www.googleapis.com/auth/calendar.readonly',
+} as const;
+
+/**
+ * Shape of the optional config.json file
+ */
+interface ConfigFile {
+  credentialsPath?: string;
+  dataDir?: string;
+  readOnly?: boolean;
+  defaultAccount?: string;
+  weekStart?: string | number;
+  locale?: string;
+  journalRetentionDays?: number;
+  oauthTokenUrl?: string;
+}
+
+let cachedConfig: Promise<ServerConfig> | null = null;
+
+function xdgConfigHome(env: NodeJS.ProcessEnv): string {
+  return env.XDG_CONFIG_HOME || join(homedir(), '.config');
+}
+
+function xdgDataHome(env: NodeJS.ProcessEnv): string {
+  return env.XDG_DATA_HOME || join(homedir(), '.local', 'share');
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseBoolean(value: string | undefined): boolean | undefined {
+  if (value === undefined || value === '') return undefined;
+  return ['1', 'true', 'yes', 'on'].includes(value.toLowerCase());
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Parse a week start given as a weekday name or 0-6 (0 = Sunday)
+ */
+function parseWeekStart(value: string | number | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const text = String(value).trim().toLowerCase();
+  const index = /^[0-6]$/.test(text) ? parseInt(text, 10) : WEEKDAYS.findIndex((d) => d.startsWith(text) && text.length >= 3);
+  if (index < 0) {
+    throw new CalendarError(
+      `Invalid week start: "${value}". Use a weekday name (e.g., "monday") or 0-6 with 0 = Sunday`,
+      ErrorCodes.INVALID_INPUT
+    );
+  }
+  return index;
+}
+
+const DATE_LOCALES: DateLocale[] = ['auto', 'en', 'ko', 'ja', 'zh'];
+
+function parseLocale(value: string | undefined): DateLocale | undefined {
+  if (value === undefined || value === '') return undefined;
+  const locale = value.trim().toLowerCase() as DateLocale;
+  if (!DATE_LOCALES.includes(locale)) {
+    throw new CalendarError(
+      `Invalid date locale: "${value}". Use one of: ${DATE_LOCALES.join(', ')}`,
+      ErrorCodes.INVALID_INPUT
+    );
+  }
+  return locale;
+}
+
+function parseRetentionDays(value: string | number | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const text = String(value).trim();
+  if (!/^\d+$/.test(text)) {
+    throw new CalendarError(
+      `Invalid journal retention: "${value}". Use a whole number of days (0 turns the journal off)`,
+      ErrorCodes.INVALID_INPUT
+    );
+  }
+  return parseInt(text, 10);
+}
+
+async function readConfigFile(path: string, required: boolean): Promise<ConfigFile> {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf-8');
+  } catch (error) {
+    if (!required && (error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw new CalendarError(`Config file not readable: ${path}`, ErrorCodes.FILE_NOT_FOUND);
+  }
+  try {
+    return JSON.parse(content) as ConfigFile;
+  } catch {
+    throw new CalendarError(`Invalid JSON in config file: ${path}`, ErrorCodes.PARSE_ERROR);
+  }
+}
+
+/**
+ * Resolve configuration. Precedence: environment variables, then the config file, then defaults.
+ *
+ * - GOOGLE_CALENDAR_CONFIG: config file (default: $XDG_CONFIG_HOME/maro-google-calendar/config.json)
+ * - GOOGLE_CALENDAR_CREDENTIALS_PATH: OAuth client or service account JSON
+ * - GOOGLE_CALENDAR_DATA_DIR: directory for token files
+ * - GOOGLE_CALENDAR_READ_ONLY: request calendar.readonly and refuse changes
+ * - GOOGLE_CALENDAR_DEFAULT_ACCOUNT: account used when a tool call names none
+ * - GOOGLE_CALENDAR_WEEK_START: first day of the week for date ranges (default: monday)
+ * - GOOGLE_CALENDAR_LOCALE: language of natural-language dates: auto, en, ko, ja or zh (default: auto)
+ * - GOOGLE_CALENDAR_JOURNAL_RETENTION_DAYS: days the undo journal keeps changes; 0 turns it off (default: 30)
+ * - GOOGLE_CALENDAR_OAUTH_TOKEN_URL: OAuth2 token endpoint (default: token_uri from the credentials, else Google's)
+ *
+ * Existing installs that keep credentials in the package's config/ directory continue to use
+ * config/ and data/ there; otherwise the XDG config and data directories are used.
+ */
+export async function resolveConfig(env: NodeJS.ProcessEnv = process.env): Promise<ServerConfig> {
+  const configDir = join(xdgConfigHome(env), APP_DIR_NAME);
+  const configFilePath = env.GOOGLE_CALENDAR_CONFIG || join(configDir, 'config.json');
+  const file = await readConfigFile(configFilePath, !!env.GOOGLE_CALENDAR_CONFIG);
+  const baseDir = dirname(configFilePath);
+  const fromFile = (path: string | undefined) =>
+    path ? (isAbsolute(path) ? path : resolve(baseDir, path)) : undefined;
+
+  const xdgCredentialsPath = join(configDir, 'credentials.json');
+  let credentialsPath = env.GOOGLE_CALENDAR_CREDENTIALS_PATH || fromFile(file.credentialsPath);
+  let legacy = false;
+  if (!credentialsPath) {
+    legacy = !(await exists(xdgCredentialsPath)) && (await exists(LEGACY_CREDENTIALS_PATH));
+    credentialsPath = legacy ? LEGACY_CREDENTIALS_PATH : xdgCredentialsPath;
+  }
+
+  const dataDir = env.GOOGLE_CALENDAR_DATA_DIR
+    || fromFile(file.dataDir)
+    || (legacy ? LEGACY_DATA_DIR : join(xdgDataHome(env), APP_DIR_NAME));
+
+  const readOnly = parseBoolean(env.GOOGLE_CALENDAR_READ_ONLY) ?? file.readOnly ?? false;
+
+  return {
+    credentialsPath: resolve(credentialsPath),
+    dataDir: resolve(dataDir),
+    readOnly,
+    scopes: [readOnly ? SCOPES.readOnly : SCOPES.readWrite],
+    defaultAccount: env.GOOGLE_CALENDAR_DEFAULT_ACCOUNT || file.defaultAccount || undefined,
+    weekStartsOn: parseWeekStart(env.GOOGLE_CALENDAR_WEEK_START) ?? parseWeekStart(file.weekStart) ?? 1,
+    locale: parseLocale(env.GOOGLE_CALENDAR_LOCALE) ?? parseLocale(file.locale) ?? 'auto',
+    journalRetentionDays: parseRetentionDays(env.GOOGLE_CALENDAR_JOURNAL_RETENTION_DAYS)
+      ?? parseRetentionDays(file.journalRetentionDays)
+      ?? 30,
+    oauthTokenUrl: env.GOOGLE_CALENDAR_OAUTH_TOKEN_URL || file.oauthTokenUrl || undefined,
+  };
+}
+
+/**
+ * Get the process-wide configuration (resolved once)
+ */
+export function loadConfig(): Promise<ServerConfig> {
+  if (!cachedConfig) {
+    cachedConfig = resolveConfig();
+    cachedConfig.catch(() => { cachedConfig = null; });
+  }
+  return cachedConfig;
+}
+
+/**
+ * Refuse a change when the server runs in read-only mode
+ */
+export async function assertWritable(action: string): Promise<void> {
+  const config = await loadConfig();
+  if (config.readOnly) {
+    throw new CalendarError(
+      `Cannot ${action}: the server is running in read-only mode`,
+      ErrorCodes.READ_ONLY_MODE
+    );
+  }
+}
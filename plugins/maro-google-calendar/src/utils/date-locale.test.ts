@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import type { DateLocale } from '../types/calendar.types.js';
+import { parseDateTime, parseDuration } from './date-parser.js';
+import corpus from './fixtures/locale-corpus.json';
+
+describe('Korean, Japanese and Chinese phrases', () => {
+  it.each(corpus.dates)('$phrase ($locale, $timeZone, from $reference)', (entry) => {
+    const parsed = parseDateTime(entry.phrase, new Date(entry.reference), entry.timeZone, entry.locale as DateLocale);
+    expect(parsed.dateTime.toISOString()).toBe(entry.expected);
+    expect(parsed.isAllDay).toBe(entry.allDay);
+  });
+
+  it.each(corpus.dates)('detects the language of $phrase', (entry) => {
+    const parsed = parseDateTime(entry.phrase, new Date(entry.reference), entry.timeZone);
+    expect(parsed.dateTime.toISOString()).toBe(entry.expected);
+  });
+
+  it.each(corpus.durations)('$phrase lasts $totalMinutes minutes', (entry) => {
+    const duration = parseDuration(entry.phrase);
+    expect(duration.days).toBe(entry.days);
+    expect(duration.totalMinutes).toBe(entry.totalMinutes);
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Google Calendar MCP Server - Date Locales
+ * Rewrites Korean, Japanese and Chinese date and duration phrases into English that chrono reads
+ */
+
+import type { DateLocale } from '../types/calendar.types.js';
+
+export type ResolvedDateLocale = Exclude<DateLocale, 'auto'>;
+
+/**
+ * Calendar date on the wall clock of a time zone
+ */
+export interface CivilDay {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Weekday characters (index = day of week, 0 = Sunday)
+ */
+const WEEKDAY_CHARS: Record<string, number> = {
+  일: 0, 월: 1, 화: 2, 수: 3, 목: 4, 금: 5, 토: 6,
+  日: 0, 天: 0, 月: 1, 火: 2, 水: 3, 木: 4, 金: 5, 土: 6,
+  一: 1, 二: 2, 三: 3, 四: 4, 五: 5, 六: 6,
+};
+
+/**
+ * Days from today named by a word ("내일", "明後日", "前天"); longer words first
+ */
+const RELATIVE_DAYS: Array<[string, number]> = [
+  ['그저께', -2], ['그제', -2], ['어제', -1], ['오늘', 0], ['내일', 1], ['모레', 2], ['글피', 3],
+  ['一昨日', -2], ['おととい', -2], ['昨日', -1], ['きのう', -1], ['今日', 0], ['きょう', 0],
+  ['明後日', 2], ['あさって', 2], ['明日', 1], ['あした', 1], ['あす', 1],
+  ['大前天', -3], ['前天', -2], ['昨天', -1], ['今天', 0], ['明天', 1],
+  ['大后天', 3], ['大後天', 3], ['后天', 2], ['後天', 2],
+];
+
+/**
+ * Week offsets named by a prefix ("다음 주", "来週", "下周")
+ */
+const WEEK_OFFSETS: Record<string, number> = {
+  이번: 0, 다음: 1, 담: 1, 지난: -1, 저번: -1,
+  今: 0, 来: 1, 先: -1,
+  这: 0, 這: 0, 本: 0, 下: 1, 上: -1,
+};
+
+/**
+ * Period phrases that map straight onto parseDateRange's English forms
+ */
+const PERIOD_PHRASES: Array<[RegExp, string]> = [
+  [/(이번|다음|지난|저번)\s*주\s*말/g, '$1 weekend'],
+  [/(이번|다음|지난|저번)\s*(주|달|분기)/g, '$1 $2'],
+  [/이번\s*해|올해|금년/g, 'this year'],
+  [/내년/g, 'next year'],
+  [/작년|지난\s*해/g, 'last year'],
+  [/주말/g, 'weekend'],
+  [/(今|来|先)週末/g, '$1 weekend'],
+  [/(今|来|先)(週|月)/g, '$1 $2'],
+  [/来年/g, 'next year'],
+  [/去年|昨年/g, 'last year'],
+  [/今年/g, 'this year'],
+  [/週末|周末/g, 'weekend'],
+  [/(这|這|本|下|上)(?:个|個)?(?:周|週|星期|礼拜|禮拜)末/g, '$1 weekend'],
+  [/(这|這|本|下|上)(?:个|個)?(?:周|週|星期|礼拜|禮拜)/g, '$1 week'],
+  [/(这|這|本|下|上)(?:个|個)?月/g, '$1 month'],
+  [/(这|這|本|下|上)(?:个|個)?季度/g, '$1 quarter'],
+  [/明年/g, 'next year'],
+];
+
+const PERIOD_WORDS: Record<string, string> = {
+  이번: 'this', 다음: 'next', 지난: 'last', 저번: 'last',
+  今: 'this', 来: 'next', 先: 'last',
+  这: 'this', 這: 'this', 本: 'this', 下: 'next', 上: 'last',
+  주: 'week', 달: 'month', 분기: 'quarter', 週: 'week', 月: 'month',
+};
+
+const CJK_NUMERALS: Record<string, number> = {
+  〇: 0, 零: 0, 一: 1, 二: 2, 两: 2, 兩: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9,
+};
+
+/**
+ * Korean native numbers, used when counting hours ("세 시", "두 시간")
+ */
+const KOREAN_NATIVE_NUMBERS: Array<[string, number]> = [
+  ['열한', 11], ['열두', 12], ['열', 10], ['한', 1], ['두', 2], ['세', 3], ['네', 4],
+  ['다섯', 5], ['여섯', 6], ['일곱', 7], ['여덟', 8], ['아홉', 9],
+];
+
+const AM_WORDS = '오전|아침|새벽|午前|朝|上午|早上|早晨|凌晨';
+const PM_WORDS = '오후|저녁|밤|午後|夕方|夜|下午|晚上|傍晚|中午';
+
+/**
+ * Particles and counters left behind once the date words are translated
+ */
+const PARTICLES = /(?:에서|에는|에|쯤|경|부터|까지|ごろ|頃|から|まで|に|の|は|的|左右)/g;
+
+const CJK = /[\p{Script=Hangul}\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+export function hasCjk(text: string): boolean {
+  return CJK.test(text);
+}
+
+/**
+ * Guess the language of a date phrase from its script
+ */
+export function detectDateLocale(text: string): ResolvedDateLocale {
+  if (/\p{Script=Hangul}/u.test(text)) return 'ko';
+  if (/[\p{Script=Hiragana}\p{Script=Katakana}]/u.test(text)) return 'ja';
+  if (/\p{Script=Han}/u.test(text)) return 'zh';
+  return 'en';
+}
+
+export function resolveDateLocale(text: string, locale: DateLocale = 'auto'): ResolvedDateLocale {
+  return locale === 'auto' ? detectDateLocale(text) : locale;
+}
+
+function addDays(date: CivilDay, days: number): CivilDay {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day, 12) + days * DAY_MS);
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+function isoDay(date: CivilDay): string {
+  return `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+}
+
+/**
+ * The given weekday in the week `offset` weeks from today; weeks start on Monday as they do
+ * in Korea, Japan and China
+ */
+function weekdayInWeek(today: CivilDay, offset: number, weekday: number): string {
+  const todayWeekday = new Date(Date.UTC(today.year, today.month - 1, today.day)).getUTCDay();
+  const monday = addDays(today, -((todayWeekday + 6) % 7) + offset * 7);
+  return isoDay(addDays(monday, (weekday + 6) % 7));
+}
+
+/**
+ * Rewrite Han numerals ("二十三", "两") and Korean native hour counts ("세 시") as digits
+ */
+export function normalizeNumerals(text: string): string {
+  let result = text.normalize('NFKC').replace(/[〇零一二两兩三四五六七八九十百]+/g, (run) => {
+    let total = 0;
+    let digit = 0;
+    for (const char of run) {
+      if (char === '百') {
+        total += (digit || 1) * 100;
+        digit = 0;
+      } else if (char === '十') {
+        total += (digit || 1) * 10;
+        digit = 0;
+      } else {
+        digit = digit * 10 + (CJK_NUMERALS[char] ?? 0);
+      }
+    }
+    return String(total + digit);
+  });
+  for (const [word, value] of KOREAN_NATIVE_NUMBERS) {
+    result = result.replace(new RegExp(`(^|[^가-힣])${word}\\s*(?=시)`, 'g'), `$1${value}`);
+  }
+  return result;
+}
+
+function toHour(hour: number, meridiem: string | undefined): number {
+  if (!meridiem) return hour;
+  if (new RegExp(`^(?:${PM_WORDS})$`).test(meridiem)) return hour < 12 ? hour + 12 : hour;
+  return hour === 12 ? 0 : hour;
+}
+
+function clock(hour: number, minute: number): string {
+  return ` at ${hour}:${String(minute).padStart(2, '0')} `;
+}
+
+/**
+ * Split a Korean, Japanese or Chinese range ("금요일부터 월요일까지", "金曜日から月曜日まで",
+ * "从周五到周一") into its two ends
+ */
+function splitRange(text: string): [string, string] | null {
+  const match = text.match(/^(.+?)\s*(?:부터|에서)\s*(.+?)\s*(?:까지)?$/)
+    ?? text.match(/^(.+?)\s*から\s*(.+?)\s*(?:まで)?$/)
+    ?? text.match(/^(?:从|從)\s*(.+?)\s*(?:到|至)\s*(.+)$/)
+    ?? text.match(/^(.+?)\s*[~〜]\s*(.+)$/)
+    ?? text.match(/^(.+?)\s*(?:到|至)\s*(.+)$/);
+  return match ? [match[1]!, match[2]!] : null;
+}
+
+function translatePhrase(input: string, today: CivilDay): string {
+  let text = input;
+
+  // Week + weekday ("다음주 금요일", "来週の金曜日", "下周五") name one exact day
+  text = text
+    .replace(/(이번|다음|담|지난|저번)\s*주\s*([월화수목금토일])요일/g, (_, week: string, day: string) =>
+      ` ${weekdayInWeek(today, WEEK_OFFSETS[week] ?? 0, WEEKDAY_CHARS[day] ?? 0)} `)
+    .replace(/(今|来|先)週\s*の?\s*([月火水木金土日])曜日?/g, (_, week: string, day: string) =>
+      ` ${weekdayInWeek(today, WEEK_OFFSETS[week] ?? 0, WEEKDAY_CHARS[day] ?? 0)} `)
+    .replace(/(这|這|本|下|上)\s*(?:个|個)?\s*(?:星期|礼拜|禮拜|周|週)([一二三四五六日天])/g, (_, week: string, day: string) =>
+      ` ${weekdayInWeek(today, WEEK_OFFSETS[week] ?? 0, WEEKDAY_CHARS[day] ?? 0)} `)
+    .replace(/([월화수목금토일])요일/g, (_, day: string) => ` ${WEEKDAY_NAMES[WEEKDAY_CHARS[day] ?? 0]} `)
+    .replace(/([月火水木金土日])曜日?/g, (_, day: string) => ` ${WEEKDAY_NAMES[WEEKDAY_CHARS[day] ?? 0]} `)
+    .replace(/(?:星期|礼拜|禮拜|周|週)([一二三四五六日天])/g, (_, day: string) =>
+      ` ${WEEKDAY_NAMES[WEEKDAY_CHARS[day] ?? 0]} `);
+
+  for (const [word, days] of RELATIVE_DAYS) {
+    text = text.split(word).join(` ${isoDay(addDays(today, days))} `);
+  }
+
+  for (const [pattern, replacement] of PERIOD_PHRASES) {
+    text = text.replace(pattern, (...args: string[]) => {
+      const english = replacement.replace(/\$(\d)/g, (_, n: string) => PERIOD_WORDS[args[Number(n)] ?? ''] ?? '');
+      return ` ${english} `;
+    });
+  }
+
+  // Quarters before numerals, which would read 四半期 as a number ("3분기", "第3四半期", "第三季度")
+  text = text.replace(/(?:第\s*)?([1-4一二三四])\s*(?:분기|四半期|季度)/g, (_, q: string) =>
+    ` Q${CJK_NUMERALS[q] ?? q} `);
+
+  text = normalizeNumerals(text);
+
+  // Rolling ranges ("앞으로 3일", "过去7天")
+  text = text
+    .replace(/(?:앞으로|향후|今後|次の|未来|接下来|接下來)\s*(\d+)\s*(?:일간?|日間?|天)/g, ' next $1 days ')
+    .replace(/(?:앞으로|향후|今後|次の|未来|接下来|接下來)\s*(\d+)\s*(?:주간?|週間|周|週)/g, ' next $1 weeks ')
+    .replace(/(?:지난|최근|過去|过去|最近)\s*(\d+)\s*(?:일간?|日間?|天)/g, ' past $1 days ')
+    .replace(/(?:지난|최근|過去|过去|最近)\s*(\d+)\s*(?:주간?|週間|周|週)/g, ' past $1 weeks ');
+
+  // Offsets from now ("3일 후", "2時間後", "30分钟后")
+  const units: Array<[string, string]> = [
+    ['일|日|天', 'days'], ['주|週間|周|週', 'weeks'], ['시간|時間|小时|小時|个小时|個小時', 'hours'], ['분|分钟|分鐘|分', 'minutes'],
+  ];
+  for (const [unit, english] of units) {
+    text = text
+      .replace(new RegExp(`(\\d+)\\s*(?:${unit})\\s*(?:후|뒤|後|后|以后|以後)`, 'g'), ` in $1 ${english} `)
+      .replace(new RegExp(`(\\d+)\\s*(?:${unit})\\s*(?:전|前|以前)`, 'g'), ` $1 ${english} ago `);
+  }
+
+  // Calendar dates ("2027년 3월 5일", "10月25日", "10月25号")
+  text = text
+    .replace(/(\d{4})\s*[년年]\s*(\d{1,2})\s*[월月]\s*(\d{1,2})\s*[일日号號]/g, (_, y: string, m: string, d: string) =>
+      ` ${isoDay({ year: Number(y), month: Number(m), day: Number(d) })} `)
+    .replace(/(\d{1,2})\s*[월月]\s*(\d{1,2})\s*[일日号號]/g, (_, m: string, d: string) =>
+      ` ${MONTH_NAMES[Number(m) - 1] ?? m} ${Number(d)} `)
+    .replace(/(\d{4})\s*[년年]\s*(\d{1,2})\s*[월月]/g, (_, y: string, m: string) => ` ${MONTH_NAMES[Number(m) - 1] ?? m} ${y} `)
+    .replace(/(\d{1,2})\s*[월月]/g, (_, m: string) => ` ${MONTH_NAMES[Number(m) - 1] ?? m} `);
+
+  // Clock times ("오후 3시 반", "午後3時15分", "下午三点一刻", "오후 3:30")
+  text = text
+    .replace(
+      new RegExp(`(?:(${AM_WORDS}|${PM_WORDS})\\s*)?(\\d{1,2})\\s*(?:시(?!간)|時(?!間)|(?:点|點)(?:钟|鐘)?)\\s*(?:(\\d{1,2})\\s*(?:분|分)|(반|半)|(\\d)\\s*刻)?`, 'g'),
+      (_, meridiem: string | undefined, h: string, m?: string, half?: string, quarter?: string) =>
+        clock(toHour(Number(h), meridiem), m ? Number(m) : half ? 30 : quarter ? Number(quarter) * 15 : 0)
+    )
+    .replace(
+      new RegExp(`(${AM_WORDS}|${PM_WORDS})\\s*(\\d{1,2}):(\\d{2})`, 'g'),
+      (_, meridiem: string, h: string, m: string) => clock(toHour(Number(h), meridiem), Number(m))
+    )
+    .replace(/정오|正午/g, ' noon ')
+    .replace(/자정|午夜|半夜/g, ' midnight ');
+
+  return text.replace(PARTICLES, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Translate a Korean, Japanese or Chinese date phrase into English chrono understands.
+ * Words relative to today ("내일", "来週の金曜日") become explicit dates; words the translator
+ * does not know are left in place.
+ */
+export function translateDateText(input: string, today: CivilDay): string {
+  const text = input.normalize('NFKC').trim();
+  const range = splitRange(text);
+  if (range) return `from ${translatePhrase(range[0], today)} to ${translatePhrase(range[1], today)}`;
+  return translatePhrase(text, today);
+}
+
+/**
+ * Translate a Korean, Japanese or Chinese duration ("1시간 30분", "一个半小时", "2時間半", "3日間")
+ * into English units
+ */
+export function translateDuration(input: string): string {
+  return normalizeNumerals(input)
+    .replace(/(\d+)\s*(?:个|個)?半\s*(?:小时|小時|钟头|鐘頭)/g, ' $1 hours 30 minutes ')
+    .replace(/(\d+)\s*(?:시간|時間)\s*(?:반|半)/g, ' $1 hours 30 minutes ')
+    .replace(/(?:반|半)\s*(?:시간|時間)|半\s*(?:个|個)?\s*(?:小时|小時|钟头|鐘頭)/g, ' 30 minutes ')
+    .replace(/(\d+)\s*(?:个|個)?\s*(?:시간|時間|小时|小時|钟头|鐘頭)/g, ' $1 hours ')
+    .replace(/(\d+)\s*(?:분|分钟|分鐘|分)/g, ' $1 minutes ')
+    .replace(/하루/g, ' 1 day ')
+    .replace(/이틀/g, ' 2 days ')
+    .replace(/(\d+)\s*(?:일간?|日間?|天)/g, ' $1 days ')
+    .replace(/(\d+)\s*(?:个|個)?\s*(?:주일?간?|週間|星期|礼拜|禮拜|周|週)/g, ' $1 weeks ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
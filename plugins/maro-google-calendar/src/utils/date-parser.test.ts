@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import { ErrorCodes } from './error-handler.js';
+import {
+  formatForCalendar,
+  getDefaultTimezone,
+  parseDateRange,
+  parseDateTime,
+  parseDuration,
+  zonedTimeToInstant,
+} from './date-parser.js';
+
+const at = (iso: string) => new Date(iso);
+
+// Monday 2026-10-19 12:00 UTC: 05:00 in Los Angeles, 21:00 in Seoul
+const REFERENCE = at('2026-10-19T12:00:00Z');
+
+describe(`date parsing with the host in ${process.env.TZ}`, () => {
+  it('runs in the host zone it was given', () => {
+    expect(Intl.DateTimeFormat().resolvedOptions().timeZone).toBe(process.env.TZ);
+    expect(getDefaultTimezone()).toBe(process.env.TZ);
+  });
+
+  describe('zonedTimeToInstant', () => {
+    it.each([
+      ['2026-10-19T09:00:00', 'UTC', '2026-10-19T09:00:00.000Z'],
+      ['2026-10-19T09:00', 'Asia/Seoul', '2026-10-19T00:00:00.000Z'],
+      ['2026-10-19T09:00:00', 'America/Los_Angeles', '2026-10-19T16:00:00.000Z'],
+      ['2026-12-19T09:00:00', 'America/Los_Angeles', '2026-12-19T17:00:00.000Z'],
+      ['2026-01-01T00:00:00', 'Asia/Kolkata', '2025-12-31T18:30:00.000Z'],
+      // Spring forward: 02:00-03:00 does not exist and moves forward by the gap
+      ['2026-03-08T02:30:00', 'America/Los_Angeles', '2026-03-08T10:30:00.000Z'],
+      ['2026-03-29T01:30:00', 'Europe/London', '2026-03-29T01:30:00.000Z'],
+      // Fall back: 01:00-02:00 happens twice and resolves to the first (daylight) one
+      ['2026-11-01T01:30:00', 'America/Los_Angeles', '2026-11-01T08:30:00.000Z'],
+      ['2026-10-25T01:30:00', 'Europe/London', '2026-10-25T00:30:00.000Z'],
+      // Either side of the transitions
+      ['2026-03-08T01:59:00', 'America/Los_Angeles', '2026-03-08T09:59:00.000Z'],
+      ['2026-03-08T03:00:00', 'America/Los_Angeles', '2026-03-08T10:00:00.000Z'],
+      ['2026-11-01T02:00:00', 'America/Los_Angeles', '2026-11-01T10:00:00.000Z'],
+    ])('%s in %s is %s', (wallTime, zone, expected) => {
+      expect(zonedTimeToInstant(wallTime, zone).toISOString()).toBe(expected);
+    });
+
+    it('rejects an unknown zone', () => {
+      expect(() => zonedTimeToInstant('2026-10-19T09:00:00', 'Mars/Olympus')).toThrow(/Unknown time zone/);
+    });
+  });
+
+  describe('parseDateTime', () => {
+    it.each([
+      ['tomorrow at 3pm', 'UTC', '2026-10-20T15:00:00.000Z', false],
+      ['tomorrow at 3pm', 'America/Los_Angeles', '2026-10-20T22:00:00.000Z', false],
+      ['tomorrow at 3pm', 'Asia/Seoul', '2026-10-20T06:00:00.000Z', false],
+      ['today', 'America/Los_Angeles', '2026-10-19T07:00:00.000Z', true],
+      // Still Monday in Seoul, where the day began at 15:00 UTC on Sunday
+      ['today', 'Asia/Seoul', '2026-10-18T15:00:00.000Z', true],
+      ['Friday 9am', 'Asia/Seoul', '2026-10-23T00:00:00.000Z', false],
+      // A weekday is today until it has passed, on every host
+      ['Monday', 'UTC', '2026-10-19T00:00:00.000Z', true],
+      ['Monday 9am', 'America/Los_Angeles', '2026-10-19T16:00:00.000Z', false],
+      ['Monday 9am', 'Asia/Seoul', '2026-10-26T00:00:00.000Z', false],
+      ['last Friday 3pm', 'UTC', '2026-10-16T15:00:00.000Z', false],
+      ['2026-10-19 09:00', 'Asia/Seoul', '2026-10-19T00:00:00.000Z', false],
+      ['3pm PST', 'Asia/Seoul', '2026-10-19T23:00:00.000Z', false],
+      ['tomorrow at 2pm Asia/Seoul', 'America/Los_Angeles', '2026-10-20T05:00:00.000Z', false],
+      ['2026-10-19T09:00:00+02:00', 'Asia/Seoul', '2026-10-19T07:00:00.000Z', false],
+      // DST gap and overlap, read on the zone's wall clock
+      ['March 8 2026 2:30am', 'America/Los_Angeles', '2026-03-08T10:30:00.000Z', false],
+      ['November 1 2026 1:30am', 'America/Los_Angeles', '2026-11-01T08:30:00.000Z', false],
+      ['November 1 2026', 'America/Los_Angeles', '2026-11-01T07:00:00.000Z', true],
+    ])('%s in %s is %s', (input, zone, expected, isAllDay) => {
+      const parsed = parseDateTime(input, REFERENCE, zone);
+      expect(parsed.dateTime.toISOString()).toBe(expected);
+      expect(parsed.isAllDay).toBe(isAllDay);
+    });
+
+    it('reads the text in the host zone when no zone is given', () => {
+      const parsed = parseDateTime('2026-10-19 09:00', REFERENCE);
+      expect(parsed.timeZone).toBe(process.env.TZ);
+      expect(parsed.dateTime.toISOString()).toBe(zonedTimeToInstant('2026-10-19T09:00:00', process.env.TZ!).toISOString());
+    });
+  });
+
+  describe('formatForCalendar', () => {
+    it.each([
+      ['2026-10-19T00:00:00Z', 'Asia/Seoul', false, { dateTime: '2026-10-19T09:00:00+09:00', timeZone: 'Asia/Seoul' }],
+      ['2026-10-19T00:00:00Z', 'America/Los_Angeles', false,
+        { dateTime: '2026-10-18T17:00:00-07:00', timeZone: 'America/Los_Angeles' }],
+      ['2026-12-19T17:00:00Z', 'America/Los_Angeles', false,
+        { dateTime: '2026-12-19T09:00:00-08:00', timeZone: 'America/Los_Angeles' }],
+      ['2026-10-19T00:00:00Z', 'UTC', false, { dateTime: '2026-10-19T00:00:00Z', timeZone: 'UTC' }],
+      ['2026-03-08T10:30:00Z', 'America/Los_Angeles', false,
+        { dateTime: '2026-03-08T03:30:00-07:00', timeZone: 'America/Los_Angeles' }],
+      ['2026-11-01T09:30:00Z', 'America/Los_Angeles', false,
+        { dateTime: '2026-11-01T01:30:00-08:00', timeZone: 'America/Los_Angeles' }],
+      // All-day events take the date on the zone's calendar
+      ['2026-10-18T15:00:00Z', 'Asia/Seoul', true, { date: '2026-10-19' }],
+      ['2026-10-19T03:00:00Z', 'America/Los_Angeles', true, { date: '2026-10-18' }],
+    ] as const)('%s in %s (all-day: %s)', (isoInstant, zone, isAllDay, expected) => {
+      expect(formatForCalendar(at(isoInstant), zone, isAllDay)).toEqual(expected);
+    });
+  });
+
+  describe('parseDateRange', () => {
+    it.each([
+      // Past and current periods stay where they are
+      ['last Friday', 'UTC', '2026-10-16T00:00:00.000Z', '2026-10-17T00:00:00.000Z'],
+      ['last Friday', 'Asia/Seoul', '2026-10-15T15:00:00.000Z', '2026-10-16T15:00:00.000Z'],
+      ['October', 'UTC', '2026-10-01T00:00:00.000Z', '2026-11-01T00:00:00.000Z'],
+      ['10월', 'Asia/Seoul', '2026-09-30T15:00:00.000Z', '2026-10-31T15:00:00.000Z'],
+      ['十月', 'Asia/Shanghai', '2026-09-30T16:00:00.000Z', '2026-10-31T16:00:00.000Z'],
+      ['September', 'UTC', '2026-09-01T00:00:00.000Z', '2026-10-01T00:00:00.000Z'],
+      ['Oct 16', 'America/Los_Angeles', '2026-10-16T07:00:00.000Z', '2026-10-17T07:00:00.000Z'],
+      ['yesterday', 'UTC', '2026-10-18T00:00:00.000Z', '2026-10-19T00:00:00.000Z'],
+      ['지난주 금요일', 'Asia/Seoul', '2026-10-15T15:00:00.000Z', '2026-10-16T15:00:00.000Z'],
+      ['先週の金曜日', 'Asia/Tokyo', '2026-10-15T15:00:00.000Z', '2026-10-16T15:00:00.000Z'],
+      ['上周五', 'Asia/Shanghai', '2026-10-15T16:00:00.000Z', '2026-10-16T16:00:00.000Z'],
+      // A bare weekday is the coming one, today included
+      ['Friday', 'UTC', '2026-10-23T00:00:00.000Z', '2026-10-24T00:00:00.000Z'],
+      ['Monday', 'UTC', '2026-10-19T00:00:00.000Z', '2026-10-20T00:00:00.000Z'],
+      ['금요일', 'Asia/Seoul', '2026-10-22T15:00:00.000Z', '2026-10-23T15:00:00.000Z'],
+      ['next Friday', 'UTC', '2026-10-30T00:00:00.000Z', '2026-10-31T00:00:00.000Z'],
+      // Months further away resolve to the closest one
+      ['January', 'UTC', '2027-01-01T00:00:00.000Z', '2027-02-01T00:00:00.000Z'],
+      ['December 2025', 'UTC', '2025-12-01T00:00:00.000Z', '2026-01-01T00:00:00.000Z'],
+      ['today', 'America/Los_Angeles', '2026-10-19T07:00:00.000Z', '2026-10-20T07:00:00.000Z'],
+      ['this week', 'UTC', '2026-10-19T00:00:00.000Z', '2026-10-26T00:00:00.000Z'],
+      ['last month', 'UTC', '2026-09-01T00:00:00.000Z', '2026-10-01T00:00:00.000Z'],
+      ['Q3', 'UTC', '2026-07-01T00:00:00.000Z', '2026-10-01T00:00:00.000Z'],
+      ['the past 2 days', 'UTC', '2026-10-17T12:00:00.000Z', '2026-10-19T12:00:00.000Z'],
+      ['between Friday and Monday', 'UTC', '2026-10-23T00:00:00.000Z', '2026-10-27T00:00:00.000Z'],
+      ['from Oct 16 to Oct 18', 'UTC', '2026-10-16T00:00:00.000Z', '2026-10-19T00:00:00.000Z'],
+      // Across the DST change, a day is 25 hours long
+      ['November 1 2026', 'America/Los_Angeles', '2026-11-01T07:00:00.000Z', '2026-11-02T08:00:00.000Z'],
+    ])('%s in %s', (input, zone, start, end) => {
+      const range = parseDateRange(input, { referenceDate: REFERENCE, timeZone: zone });
+      expect([range.start.toISOString(), range.end.toISOString()]).toEqual([start, end]);
+      expect(range.isInstant).toBe(false);
+    });
+
+    it.each([
+      ['last Friday 3pm', 'UTC', '2026-10-16T15:00:00.000Z'],
+      ['Friday 3pm', 'Asia/Seoul', '2026-10-23T06:00:00.000Z'],
+    ])('%s in %s is an instant', (input, zone, expected) => {
+      const range = parseDateRange(input, { referenceDate: REFERENCE, timeZone: zone });
+      expect(range).toMatchObject({ isInstant: true, start: at(expected), end: at(expected) });
+    });
+
+    it.each(['Friday banana', 'Friday and Monday and Tuesday', 'Monday to last Friday'])('rejects %s', (input) => {
+      expect(() => parseDateRange(input, { referenceDate: REFERENCE, timeZone: 'UTC' })).toThrow(/date range/i);
+    });
+  });
+});
+
+describe('parseDuration', () => {
+  it.each([
+    ['45 minutes', 0, 45],
+    ['1 hour', 0, 60],
+    ['1.5 hours', 0, 90],
+    ['90m', 0, 90],
+    ['1h 30m', 0, 90],
+    ['half an hour', 0, 30],
+    ['a quarter of an hour', 0, 15],
+    ['an hour and a half', 0, 90],
+    ['one and a half hours', 0, 90],
+    ['1:30', 0, 90],
+    ['PT45M', 0, 45],
+    ['P1DT2H', 1, 1560],
+    ['2 days', 2, 2880],
+    ['1 week', 7, 10080],
+    ['1.5 days', 1, 2160],
+  ])('%s is %i whole days, %i minutes in total', (input, days, totalMinutes) => {
+    expect(parseDuration(input)).toMatchObject({ days, totalMinutes });
+  });
+
+  it.each(['90', '1.5'])('rejects the bare number %s', (input) => {
+    expect(() => parseDuration(input)).toThrow(expect.objectContaining({
+      code: ErrorCodes.INVALID_DURATION,
+      message: expect.stringContaining('Duration needs a unit'),
+    }));
+  });
+
+  it.each(['1 month', '2 months', '1 year', 'P1M', 'P1Y'])('rejects %s, which has no fixed length', (input) => {
+    expect(() => parseDuration(input)).toThrow(expect.objectContaining({
+      code: ErrorCodes.INVALID_DURATION,
+      message: expect.stringContaining('Months and years vary in length'),
+    }));
+  });
+
+  it.each(['', '0 minutes', 'soon', 'PT'])('rejects %j', (input) => {
+    expect(() => parseDuration(input)).toThrow(expect.objectContaining({ code: ErrorCodes.INVALID_DURATION }));
+  });
+});
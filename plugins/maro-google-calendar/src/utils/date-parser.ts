@@ -4,38 +4,242 @@
  */
 
 import * as chrono from 'chrono-node';
-import { addMinutes, addHours, format, parseISO } from 'date-fns';
-import { formatInTimeZone, toZonedTime } from 'date-fns-tz';
-import type { ParsedDateTime, ParsedDuration } from '../types/calendar.types.js';
+import { parseISO } from 'date-fns';
+import { formatInTimeZone, getTimezoneOffset } from 'date-fns-tz';
+import type { DateLocale, ParsedDateRange, ParsedDateTime, ParsedDuration } from '../types/calendar.types.js';
 import { CalendarError, ErrorCodes } from './error-handler.js';
+import { hasCjk, resolveDateLocale, translateDateText, translateDuration, type CivilDay } from './date-locale.js';
 
 /**
  * Default timezone if not specified
  */
 const DEFAULT_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
+type DurationUnit = 'weeks' | 'days' | 'hours' | 'minutes' | 'seconds';
+
+const DURATION_UNITS: Record<string, DurationUnit> = {
+  w: 'weeks', wk: 'weeks', wks: 'weeks', week: 'weeks', weeks: 'weeks',
+  d: 'days', day: 'days', days: 'days',
+  h: 'hours', hr: 'hours', hrs: 'hours', hour: 'hours', hours: 'hours',
+  m: 'minutes', min: 'minutes', mins: 'minutes', minute: 'minutes', minutes: 'minutes',
+  s: 'seconds', sec: 'seconds', secs: 'seconds', second: 'seconds', seconds: 'seconds',
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
 /**
- * Duration pattern matching
+ * ISO 8601 duration; years and months are matched only to be rejected
  */
-const DURATION_PATTERNS = {
-  hours: /(\d+)\s*(?:hours?|hrs?|h)/i,
-  minutes: /(\d+)\s*(?:minutes?|mins?|m)/i,
-  combined: /(\d+)\s*(?:hours?|hrs?|h)\s*(?:and\s*)?(\d+)\s*(?:minutes?|mins?|m)/i,
-};
+const ISO_DURATION =
+  /^p(?:(\d+(?:\.\d+)?)y)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+(?:\.\d+)?)w)?(?:(\d+(?:\.\d+)?)d)?(?:t(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+(?:\.\d+)?)s)?)?$/;
+
+const DURATION_SUGGESTION = 'Try "45 minutes", "1.5 hours", "1h 30m", "half an hour", "2 days" or "PT45M"';
+
+const MONTHS_REASON = 'Months and years vary in length; give the duration in days or weeks';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RANGE_SUGGESTION =
+  'Try "today", "next week", "this month", "Q3", "between Friday and Monday" or "the next 3 days"';
+
+/**
+ * Characters that count as unparsed words; leftover hiragana is taken to be particles
+ */
+const WORD_CHARACTERS = /[a-z0-9\p{Script=Hangul}\p{Script=Han}\p{Script=Katakana}]/iu;
+
+/**
+ * Words that place a weekday before the reference date ("last Friday")
+ */
+const PAST_WORDS = /\b(?:last|previous|past)\b/i;
+
+/**
+ * Words that may surround a date without changing it ("on Friday", "during March")
+ */
+const FILLER_WORDS = /\b(?:on|in|at|during|the|of|for|this)\b/g;
+
+/**
+ * chrono reference that reads relative phrases ("today", "Friday") on the zone's wall clock
+ */
+function chronoReference(referenceDate: Date, timeZone: string): chrono.ParsingReference {
+  return { instant: referenceDate, timezone: getTimezoneOffset(timeZone, referenceDate) / 60000 };
+}
+
+function pad2(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function formatCivil(date: CivilDay): string {
+  return `${date.year}-${pad2(date.month)}-${pad2(date.day)}`;
+}
+
+/**
+ * Convert a wall-clock time ("yyyy-MM-ddTHH:mm:ss") in a time zone to an instant.
+ * A time skipped by a DST change moves forward by the gap (02:30 becomes 03:30), and a time
+ * that occurs twice resolves to its first occurrence. Unlike fromZonedTime, the result does
+ * not depend on the host's time zone.
+ */
+export function zonedTimeToInstant(wallTime: string, timeZone: string): Date {
+  const asUtc = Date.parse(`${wallTime.length === 16 ? `${wallTime}:00` : wallTime}Z`);
+  if (Number.isNaN(asUtc)) {
+    throw new CalendarError(`Invalid date/time: "${wallTime}"`, ErrorCodes.INVALID_DATE);
+  }
+  // The offsets a day either side of the wall time cover any single transition
+  const offsetBefore = getTimezoneOffset(timeZone, new Date(asUtc - DAY_MS));
+  const offsetAfter = getTimezoneOffset(timeZone, new Date(asUtc + DAY_MS));
+  if (Number.isNaN(offsetBefore) || Number.isNaN(offsetAfter)) {
+    throw new CalendarError(`Unknown time zone: "${timeZone}"`, ErrorCodes.INVALID_INPUT);
+  }
+  const wall = formatInTimeZone(new Date(asUtc), 'UTC', "yyyy-MM-dd'T'HH:mm:ss");
+  const matches = [asUtc - offsetBefore, asUtc - offsetAfter]
+    .filter((t) => formatInTimeZone(new Date(t), timeZone, "yyyy-MM-dd'T'HH:mm:ss") === wall)
+    .sort((x, y) => x - y);
+  // No match means the wall time falls in a gap; the pre-transition offset lands after it
+  return new Date(matches[0] ?? asUtc - offsetBefore);
+}
+
+/**
+ * Instant of parsed chrono components. An explicit zone in the text ("3pm PST", "+09:00")
+ * wins; otherwise the wall clock is read in the target zone.
+ */
+function componentsToInstant(components: chrono.ParsedComponents, timeZone: string): Date {
+  if (components.isCertain('timezoneOffset')) return components.date();
+  const day: CivilDay = {
+    year: components.get('year') ?? 0,
+    month: components.get('month') ?? 1,
+    day: components.get('day') ?? 1,
+  };
+  const time = [components.get('hour'), components.get('minute'), components.get('second')]
+    .map((v) => pad2(v ?? 0))
+    .join(':');
+  return zonedTimeToInstant(`${formatCivil(day)}T${time}`, timeZone);
+}
+
+/**
+ * Split an IANA zone name out of the input ("tomorrow at 2pm Asia/Seoul")
+ */
+function extractZoneName(input: string): { text: string; zone?: string } {
+  const match = input.match(/(?:^|\s)(?:in\s+)?([A-Za-z]+(?:\/[A-Za-z0-9_+-]+)+)(?=\s|$)/);
+  if (!match) return { text: input };
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: match[1] });
+  } catch {
+    return { text: input };
+  }
+  return { text: input.replace(match[0], ' ').trim(), zone: match[1] };
+}
+
+function isWeekdayOnly(components: chrono.ParsedComponents): boolean {
+  return components.isCertain('weekday') && !components.isCertain('day') && !components.isCertain('month');
+}
+
+/**
+ * Run chrono's English parser. chrono's forwardDate compares weekdays against the reference
+ * shifted to the host's clock, so whether "Monday" meant today depended on the host's zone.
+ * Weekdays are read without it and moved here instead: a weekday already past becomes the
+ * next one, unless the text asks for a past one ("last Friday").
+ */
+function parseWithWeekdays(
+  text: string,
+  referenceDate: Date,
+  timeZone: string,
+  forwardDate: boolean
+): chrono.ParsedResult[] {
+  const reference = chronoReference(referenceDate, timeZone);
+  const results = chrono.parse(text, reference, { forwardDate });
+  if (!results.some((r) => isWeekdayOnly(r.start))) return results;
+
+  const unforwarded = forwardDate ? chrono.parse(text, reference) : results;
+  const today = civilToday(referenceDate, timeZone);
+  return results.map((result, index) => {
+    const weekday = unforwarded[index];
+    if (!weekday || weekday.index !== result.index || !isWeekdayOnly(weekday.start)) return result;
+    const { start } = weekday;
+    const day = { year: start.get('year') ?? 0, month: start.get('month') ?? 1, day: start.get('day') ?? 1 };
+    const past = start.isCertain('hour')
+      ? componentsToInstant(start, timeZone).getTime() < referenceDate.getTime()
+      : formatCivil(day) < formatCivil(today);
+    if (past && !PAST_WORDS.test(weekday.text) && start instanceof chrono.ParsingComponents) {
+      const next = addCivil(day, 7);
+      start.imply('year', next.year).imply('month', next.month).imply('day', next.day);
+    }
+    return weekday;
+  });
+}
+
+/**
+ * Run chrono over the input in the given locale. Korean, Japanese and Chinese phrases are
+ * translated to English first; Japanese or Chinese that yields no date after translation is
+ * handed to chrono's own parser for that language. Returns the text the results refer to.
+ * With `forwardDate`, dates resolve to the next one after the reference; without it, to the closest.
+ */
+function parseLocalized(
+  input: string,
+  referenceDate: Date,
+  timeZone: string,
+  locale: DateLocale = 'auto',
+  forwardDate = true
+): { text: string; results: chrono.ParsedResult[] } {
+  const resolved = resolveDateLocale(input, locale);
+  const text = resolved === 'en' ? input : translateDateText(input, civilToday(referenceDate, timeZone));
+  const results = parseWithWeekdays(text, referenceDate, timeZone, forwardDate);
+  if (results.length > 0 || resolved === 'en' || resolved === 'ko') return { text, results };
+
+  // chrono's Chinese parsers ignore the reference zone, so give both the zone's wall clock as host time
+  const wallClock = new Date(formatInTimeZone(referenceDate, timeZone, "yyyy-MM-dd'T'HH:mm:ss"));
+  const parser = resolved === 'ja' ? chrono.ja : chrono.zh;
+  return { text: input, results: parser.parse(input, wallClock, { forwardDate }) };
+}
+
+function civilToday(referenceDate: Date, timeZone: string): CivilDay {
+  const [year = 0, month = 0, day = 0] = formatInTimeZone(referenceDate, timeZone, 'yyyy-M-d')
+    .split('-')
+    .map((part) => parseInt(part, 10));
+  return { year, month, day };
+}
+
+/**
+ * Add days (or months) to a civil date; day overflow rolls into the next month
+ */
+function addCivil(date: CivilDay, days: number, months = 0): CivilDay {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1 + months, date.day, 12) + days * DAY_MS);
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+function startOfCivilDay(date: CivilDay, timeZone: string): Date {
+  return zonedTimeToInstant(`${formatCivil(date)}T00:00:00`, timeZone);
+}
+
+function civilRange(start: CivilDay, end: CivilDay, timeZone: string): ParsedDateRange {
+  return {
+    start: startOfCivilDay(start, timeZone),
+    end: startOfCivilDay(end, timeZone),
+    timeZone,
+    isInstant: false,
+  };
+}
 
 /**
- * Parse natural language date/time string
+ * Parse natural language date/time string in the given time zone (default: the host's).
+ * Relative words ("today", "Friday") and clock times are read on that zone's wall clock;
+ * an explicit zone in the text ("3pm PST", "2pm Asia/Seoul") takes precedence.
+ * Dates without a time resolve to the start of that day. Korean, Japanese and Chinese input
+ * ("내일 오후 3시", "来週の金曜日", "下周一上午十点") is read in `locale` (default: detected).
  */
 export function parseDateTime(
   input: string,
   referenceDate?: Date,
-  timeZone?: string
+  timeZone?: string,
+  locale?: DateLocale
 ): ParsedDateTime {
-  const tz = timeZone || DEFAULT_TIMEZONE;
+  const { text, zone } = extractZoneName(input);
+  const tz = zone || timeZone || DEFAULT_TIMEZONE;
   const refDate = referenceDate || new Date();
 
   // Try to parse with chrono
-  const results = chrono.parse(input, refDate, { forwardDate: true });
+  const { results } = parseLocalized(text, refDate, tz, locale);
 
   if (results.length === 0) {
     throw new CalendarError(
@@ -52,95 +256,138 @@ export function parseDateTime(
     );
   }
   
-  const parsedDate = result.start.date();
-
   // Check if the parsed result has time components
   const hasTime = result.start.isCertain('hour') || 
                   result.start.isCertain('minute');
 
-  // Convert to the specified timezone
-  const zonedDate = toZonedTime(parsedDate, tz);
+  const dateTime = hasTime
+    ? componentsToInstant(result.start, tz)
+    : startOfCivilDay(
+        { year: result.start.get('year') ?? 0, month: result.start.get('month') ?? 1, day: result.start.get('day') ?? 1 },
+        tz
+      );
 
   return {
-    dateTime: zonedDate,
+    dateTime,
     timeZone: tz,
     isAllDay: !hasTime,
   };
 }
 
 /**
- * Parse duration string (e.g., "1 hour", "30 minutes", "1h 30m")
+ * Parse a duration: "1 hour", "90m", "1.5 hours", "1h 30m", "half an hour", "an hour and a half",
+ * "2 days", "1 week", "1:30", ISO 8601 ("PT45M", "P1DT2H") or Korean, Japanese and Chinese
+ * ("1시간 30분", "一个半小时"). Days and weeks are kept as whole calendar days; a fraction of a
+ * day becomes hours.
  */
-export function parseDuration(input: string): ParsedDuration {
-  // Try combined pattern first
-  const combinedMatch = input.match(DURATION_PATTERNS.combined);
-  if (combinedMatch) {
-    const hours = parseInt(combinedMatch[1] || '0', 10);
-    const minutes = parseInt(combinedMatch[2] || '0', 10);
-    return {
-      hours,
-      minutes,
-      totalMinutes: hours * 60 + minutes,
-    };
-  }
-
-  let hours = 0;
-  let minutes = 0;
-
-  // Try hours pattern
-  const hoursMatch = input.match(DURATION_PATTERNS.hours);
-  if (hoursMatch) {
-    hours = parseInt(hoursMatch[1] || '0', 10);
-  }
-
-  // Try minutes pattern
-  const minutesMatch = input.match(DURATION_PATTERNS.minutes);
-  if (minutesMatch) {
-    minutes = parseInt(minutesMatch[1] || '0', 10);
+export function parseDuration(rawInput: string): ParsedDuration {
+  const input = (hasCjk(rawInput) ? translateDuration(rawInput) : rawInput).trim().toLowerCase();
+  const invalid = (reason = 'Could not parse duration from') =>
+    new CalendarError(`${reason}: "${rawInput}". ${DURATION_SUGGESTION}`, ErrorCodes.INVALID_DURATION);
+
+  const totals: Record<DurationUnit, number> = { weeks: 0, days: 0, hours: 0, minutes: 0, seconds: 0 };
+
+  const iso = input.match(ISO_DURATION);
+  const clock = input.match(/^(\d+):([0-5]\d)$/);
+  if (/^p/.test(input)) {
+    if (!iso || !/\d/.test(input) || input.endsWith('t')) throw invalid('Invalid ISO 8601 duration');
+    if (iso[1] || iso[2]) throw invalid(MONTHS_REASON);
+    (['weeks', 'days', 'hours', 'minutes', 'seconds'] as const).forEach((unit, i) => {
+      totals[unit] = parseFloat(iso[i + 3] ?? '0');
+    });
+  } else if (clock) {
+    totals.hours = parseInt(clock[1]!, 10);
+    totals.minutes = parseInt(clock[2]!, 10);
+  } else {
+    const text = input
+      .replace(/(\d+)\s+(\d+)\/(\d+)/g, (_, whole: string, n: string, d: string) => String(Number(whole) + Number(n) / Number(d)))
+      .replace(/(\d+)\/(\d+)/g, (_, n: string, d: string) => String(Number(n) / Number(d)))
+      // "an hour and a half" and "one and a half hours"
+      .replace(/(\S+)\s+([a-z]+)\s+and\s+a\s+half\b/g, (match, amount: string, unit: string) =>
+        amountOf(amount) !== undefined ? `${amountOf(amount)! + 0.5} ${unit}` : match)
+      .replace(/(\S+)\s+and\s+a\s+half\s+([a-z]+)/g, (match, amount: string, unit: string) =>
+        amountOf(amount) !== undefined ? `${amountOf(amount)! + 0.5} ${unit}` : match)
+      // "half an hour", "a quarter of an hour"
+      .replace(/\b(?:an?\s+)?(half|quarter)(?:\s+of)?(?:\s+an?)?[\s-]+(?=[a-z])/g, (_, part: string) =>
+        part === 'half' ? '0.5 ' : '0.25 ')
+      .replace(/,|\band\b|\+/g, ' ')
+      .trim();
+
+    const token = /^(\d+(?:\.\d+)?|\.\d+|[a-z]+)\s*([a-z]+)\s*/;
+    let rest = text;
+    if (!rest) throw invalid();
+    while (rest) {
+      const match = rest.match(token);
+      const amount = match ? amountOf(match[1]!) : undefined;
+      if (!match || amount === undefined) {
+        throw invalid(/^\d+(?:\.\d+)?$/.test(rest) ? 'Duration needs a unit' : undefined);
+      }
+      if (/^(?:mos?|months?|y|yrs?|years?)$/.test(match[2]!)) throw invalid(MONTHS_REASON);
+      const unit = DURATION_UNITS[match[2]!];
+      if (!unit) throw invalid();
+      totals[unit] += amount;
+      rest = rest.slice(match[0].length);
+    }
   }
 
-  if (hours === 0 && minutes === 0) {
-    // Try parsing as just a number (assume hours)
-    const numMatch = input.match(/^(\d+)$/);
-    if (numMatch) {
-      hours = parseInt(numMatch[1] || '1', 10);
-    } else {
-      throw new CalendarError(
-        `Could not parse duration from: "${input}"`,
-        ErrorCodes.INVALID_DURATION
-      );
-    }
+  // Whole days stay days; everything else is counted in minutes
+  const wholeDays = Math.floor(totals.weeks * 7 + totals.days);
+  const dayFraction = totals.weeks * 7 + totals.days - wholeDays;
+  const remainder = Math.round(dayFraction * 1440 + totals.hours * 60 + totals.minutes + totals.seconds / 60);
+  if (wholeDays === 0 && remainder <= 0) {
+    throw invalid('Duration must be longer than zero');
   }
 
   return {
-    hours,
-    minutes,
-    totalMinutes: hours * 60 + minutes,
+    days: wholeDays,
+    hours: Math.floor(remainder / 60),
+    minutes: remainder % 60,
+    totalMinutes: wholeDays * 1440 + remainder,
   };
 }
 
 /**
- * Calculate end time from start time and duration
+ * Numeric value of a duration amount ("2", "1.5", "an", "three")
+ */
+function amountOf(word: string): number | undefined {
+  if (/^(?:\d+(?:\.\d+)?|\.\d+)$/.test(word)) return parseFloat(word);
+  return NUMBER_WORDS[word];
+}
+
+/**
+ * Calculate end time from start time and duration. Days land on the same wall-clock time in
+ * the time zone; an all-day span covers at least one whole day and rounds up to whole days.
  */
 export function calculateEndTime(
   startTime: Date,
-  duration: string | ParsedDuration
+  duration: string | ParsedDuration,
+  timeZone?: string,
+  isAllDay = false
 ): Date {
   const parsedDuration = typeof duration === 'string' 
     ? parseDuration(duration) 
     : duration;
+  const tz = timeZone || DEFAULT_TIMEZONE;
 
-  let endTime = startTime;
-  
-  if (parsedDuration.hours > 0) {
-    endTime = addHours(endTime, parsedDuration.hours);
-  }
-  
-  if (parsedDuration.minutes > 0) {
-    endTime = addMinutes(endTime, parsedDuration.minutes);
-  }
+  const days = isAllDay ? Math.max(1, Math.ceil(parsedDuration.totalMinutes / 1440)) : parsedDuration.days;
+  const endDay = days > 0
+    ? zonedTimeToInstant(
+        `${formatCivil(addCivil(civilToday(startTime, tz), days))}T${formatInTimeZone(startTime, tz, 'HH:mm:ss')}`,
+        tz
+      )
+    : startTime;
+  if (isAllDay) return endDay;
+
+  return new Date(endDay.getTime() + (parsedDuration.hours * 60 + parsedDuration.minutes) * 60 * 1000);
+}
 
-  return endTime;
+/**
+ * Midnight at the start of the day after `date` in the time zone. All-day events end on this
+ * exclusive date.
+ */
+export function startOfNextDay(date: Date, timeZone?: string): Date {
+  const tz = timeZone || DEFAULT_TIMEZONE;
+  return startOfCivilDay(addCivil(civilToday(date, tz), 1), tz);
 }
 
 /**
@@ -154,9 +401,9 @@ export function formatForCalendar(
   const tz = timeZone || DEFAULT_TIMEZONE;
 
   if (isAllDay) {
-    // For all-day events, use date format (YYYY-MM-DD)
+    // For all-day events, use the date on the zone's calendar (YYYY-MM-DD)
     return {
-      date: format(date, 'yyyy-MM-dd'),
+      date: formatInTimeZone(date, tz, 'yyyy-MM-dd'),
     };
   }
 
@@ -245,3 +492,145 @@ export function isAllDayFormat(dateString: string): boolean {
   // All-day events use YYYY-MM-DD format (no time component)
   return /^\d{4}-\d{2}-\d{2}$/.test(dateString);
 }
+
+/**
+ * Range covered by one date expression: a whole day, month or an exact instant
+ */
+function parseSingleRange(
+  input: string,
+  referenceDate: Date,
+  timeZone: string,
+  locale?: DateLocale
+): ParsedDateRange | null {
+  // A range may lie in the past: "October" is this October, "Oct 16" may be last week
+  const { text, results } = parseLocalized(input, referenceDate, timeZone, locale, false);
+  const result = results[0];
+  if (!result || results.length > 1) return null;
+
+  // Reject input with words chrono ignored ("Friday banana")
+  const leftover = text.replace(result.text, ' ').toLowerCase().replace(FILLER_WORDS, ' ').trim();
+  if (WORD_CHARACTERS.test(leftover)) return null;
+
+  const start = result.start;
+  const day: CivilDay = {
+    year: start.get('year') ?? 0,
+    month: start.get('month') ?? 1,
+    day: start.get('day') ?? 1,
+  };
+
+  if (start.isCertain('hour') || start.isCertain('timezoneOffset')) {
+    const instant = componentsToInstant(start, timeZone);
+    return { start: instant, end: instant, timeZone, isInstant: true };
+  }
+  if (start.isCertain('day') || start.isCertain('weekday')) {
+    return civilRange(day, addCivil(day, 1), timeZone);
+  }
+  if (start.isCertain('month')) {
+    const first = { ...day, day: 1 };
+    return civilRange(first, addCivil(first, 0, 1), timeZone);
+  }
+  return null;
+}
+
+/**
+ * Parse a natural-language date range: "this week", "next month", "Q3", "between Friday and
+ * Monday", "the next 3 days", or any single date ("tomorrow" covers the whole day). The end is
+ * exclusive. Weeks start on `weekStartsOn` (0 = Sunday, default Monday). Input naming an exact
+ * time yields an instant range with `isInstant` set. Korean, Japanese and Chinese ranges
+ * ("다음 주", "今月", "从周五到周一") are read in `locale` (default: detected).
+ */
+export function parseDateRange(
+  input: string,
+  options: { referenceDate?: Date; timeZone?: string; weekStartsOn?: number; locale?: DateLocale } = {}
+): ParsedDateRange {
+  const { text: stripped, zone } = extractZoneName(input.trim());
+  const tz = zone || options.timeZone || DEFAULT_TIMEZONE;
+  const ref = options.referenceDate || new Date();
+  const weekStartsOn = options.weekStartsOn ?? 1;
+  const today = civilToday(ref, tz);
+  const locale = resolveDateLocale(stripped, options.locale);
+  const text = (locale === 'en' ? stripped : translateDateText(stripped, today)).replace(/\s+/g, ' ');
+  const lower = text.toLowerCase();
+  const invalid = () =>
+    new CalendarError(`Could not parse date range from: "${input}". ${RANGE_SUGGESTION}`, ErrorCodes.INVALID_DATE);
+
+  // "the next 3 days", "past 2 weeks"
+  const rolling = lower.match(/^(?:the )?(next|coming|past|last|previous) (\d+) (day|week|month)s?$/);
+  if (rolling) {
+    const amount = parseInt(rolling[2]!, 10);
+    const sign = rolling[1] === 'next' || rolling[1] === 'coming' ? 1 : -1;
+    const unit = rolling[3]!;
+    const now = ref.getTime();
+    const other = unit === 'month'
+      ? zonedTimeToInstant(
+          `${formatCivil(addCivil(today, 0, sign * amount))}T${formatInTimeZone(ref, tz, 'HH:mm:ss')}`,
+          tz
+        ).getTime()
+      : now + sign * amount * (unit === 'week' ? 7 : 1) * DAY_MS;
+    return {
+      start: new Date(Math.min(now, other)),
+      end: new Date(Math.max(now, other)),
+      timeZone: tz,
+      isInstant: false,
+    };
+  }
+
+  // "this week", "next month", "last quarter", "this weekend"
+  const relative = lower.match(/^(this|current|next|coming|last|previous) (week|weekend|month|quarter|year)$/)
+    ?? (lower === 'weekend' ? [lower, 'this', 'weekend'] : null);
+  if (relative) {
+    const offset = { this: 0, current: 0, next: 1, coming: 1, last: -1, previous: -1 }[relative[1] as 'this'] ?? 0;
+    const weekday = new Date(Date.UTC(today.year, today.month - 1, today.day)).getUTCDay();
+    switch (relative[2]) {
+      case 'week': {
+        const first = addCivil(today, -((weekday - weekStartsOn + 7) % 7) + offset * 7);
+        return civilRange(first, addCivil(first, 7), tz);
+      }
+      case 'weekend': {
+        // The coming Saturday (today, if it is the weekend already)
+        const saturday = addCivil(today, (weekday === 0 ? -1 : 6 - weekday) + offset * 7);
+        return civilRange(saturday, addCivil(saturday, 2), tz);
+      }
+      case 'month': {
+        const first = addCivil({ ...today, day: 1 }, 0, offset);
+        return civilRange(first, addCivil(first, 0, 1), tz);
+      }
+      case 'quarter': {
+        const first = addCivil({ ...today, month: Math.floor((today.month - 1) / 3) * 3 + 1, day: 1 }, 0, offset * 3);
+        return civilRange(first, addCivil(first, 0, 3), tz);
+      }
+      default: {
+        const first = { year: today.year + offset, month: 1, day: 1 };
+        return civilRange(first, { year: first.year + 1, month: 1, day: 1 }, tz);
+      }
+    }
+  }
+
+  // "Q3", "Q3 2027", "2027 Q3"
+  const quarter = lower.match(/^q([1-4])(?: (\d{4}))?$/);
+  const yearFirstQuarter = lower.match(/^(\d{4}) q([1-4])$/);
+  if (quarter || yearFirstQuarter) {
+    const q = parseInt(quarter ? quarter[1]! : yearFirstQuarter![2]!, 10);
+    const year = parseInt((quarter ? quarter[2] : yearFirstQuarter![1]) ?? String(today.year), 10);
+    const first = { year, month: (q - 1) * 3 + 1, day: 1 };
+    return civilRange(first, addCivil(first, 0, 3), tz);
+  }
+
+  // "between Friday and Monday", "from Nov 3 to Nov 5", "tomorrow - Friday"
+  const between = text.match(/^between (.+?) and (.+)$/i)
+    ?? text.match(/^(?:from )?(.+?) (?:to|until|till|through|thru|-|–) (.+)$/i);
+  if (between) {
+    const from = parseSingleRange(between[1]!, ref, tz, locale);
+    // Read the end relative to the start so "Friday to Monday" means the Monday after
+    const to = from ? parseSingleRange(between[2]!, from.start, tz, locale) : null;
+    if (!from || !to) throw invalid();
+    if (to.end.getTime() <= from.start.getTime()) {
+      throw new CalendarError(`Date range ends before it starts: "${input}"`, ErrorCodes.INVALID_DATE);
+    }
+    return { start: from.start, end: to.end, timeZone: tz, isInstant: false };
+  }
+
+  const single = parseSingleRange(text, ref, tz, locale);
+  if (!single) throw invalid();
+  return single;
+}
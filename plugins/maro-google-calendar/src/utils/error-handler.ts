@@ -35,19 +35,26 @@ export const ErrorCodes = {
   AUTH_TOKEN_EXPIRED: 'AUTH_TOKEN_EXPIRED',
   AUTH_TOKEN_INVALID: 'AUTH_TOKEN_INVALID',
   AUTH_REFRESH_FAILED: 'AUTH_REFRESH_FAILED',
+  AUTH_FLOW_FAILED: 'AUTH_FLOW_FAILED',
 
   // Validation errors
   INVALID_INPUT: 'INVALID_INPUT',
   INVALID_DATE: 'INVALID_DATE',
   INVALID_DURATION: 'INVALID_DURATION',
   MISSING_REQUIRED_FIELD: 'MISSING_REQUIRED_FIELD',
+  READ_ONLY_MODE: 'READ_ONLY_MODE',
 
   // Calendar API errors
   EVENT_NOT_FOUND: 'EVENT_NOT_FOUND',
+  EVENT_CONFLICT: 'EVENT_CONFLICT',
   CALENDAR_NOT_FOUND: 'CALENDAR_NOT_FOUND',
   RATE_LIMIT_EXCEEDED: 'RATE_LIMIT_EXCEEDED',
   API_ERROR: 'API_ERROR',
 
+  // Change journal errors
+  CHANGE_NOT_FOUND: 'CHANGE_NOT_FOUND',
+  CHANGE_CONFLICT: 'CHANGE_CONFLICT',
+
   // System errors
   UNKNOWN_ERROR: 'UNKNOWN_ERROR',
   FILE_NOT_FOUND: 'FILE_NOT_FOUND',
@@ -0,0 +1,212 @@
+import { describe, expect, it } from 'vitest';
+import type { FreeSlotQuery, TimeInterval } from '../types/calendar.types.js';
+import { ErrorCodes } from './error-handler.js';
+import { findFreeSlots, mergeIntervals, nextFreeInterval, workingIntervals } from './free-slots.js';
+
+const at = (iso: string) => new Date(iso);
+const interval = (start: string, end: string): TimeInterval => ({ start: at(start), end: at(end) });
+const iso = (intervals: TimeInterval[]) =>
+  intervals.map((i) => [i.start.toISOString(), i.end.toISOString()]);
+
+function query(overrides: Partial<FreeSlotQuery> = {}): FreeSlotQuery {
+  return {
+    busy: {},
+    windowStart: at('2026-10-19T00:00:00Z'),
+    windowEnd: at('2026-10-20T00:00:00Z'),
+    durationMinutes: 60,
+    timeZone: 'UTC',
+    workingHours: { start: '09:00', end: '13:00', days: [1, 2, 3, 4, 5] },
+    ...overrides,
+  };
+}
+
+describe('mergeIntervals', () => {
+  it('sorts, merges overlapping and touching blocks and drops empty ones', () => {
+    const input = [
+      interval('2026-10-19T11:00:00Z', '2026-10-19T12:00:00Z'),
+      interval('2026-10-19T09:00:00Z', '2026-10-19T10:00:00Z'),
+      interval('2026-10-19T09:30:00Z', '2026-10-19T10:30:00Z'),
+      interval('2026-10-19T10:30:00Z', '2026-10-19T10:45:00Z'),
+      interval('2026-10-19T13:00:00Z', '2026-10-19T13:00:00Z'),
+    ];
+    expect(iso(mergeIntervals(input))).toEqual([
+      ['2026-10-19T09:00:00.000Z', '2026-10-19T10:45:00.000Z'],
+      ['2026-10-19T11:00:00.000Z', '2026-10-19T12:00:00.000Z'],
+    ]);
+  });
+
+  it('keeps a block that contains the next one whole', () => {
+    const merged = mergeIntervals([
+      interval('2026-10-19T09:00:00Z', '2026-10-19T12:00:00Z'),
+      interval('2026-10-19T10:00:00Z', '2026-10-19T11:00:00Z'),
+    ]);
+    expect(iso(merged)).toEqual([['2026-10-19T09:00:00.000Z', '2026-10-19T12:00:00.000Z']]);
+  });
+
+  it('does not modify its input', () => {
+    const first = interval('2026-10-19T09:00:00Z', '2026-10-19T10:00:00Z');
+    mergeIntervals([first, interval('2026-10-19T09:30:00Z', '2026-10-19T11:00:00Z')]);
+    expect(first.end.toISOString()).toBe('2026-10-19T10:00:00.000Z');
+  });
+});
+
+describe('workingIntervals', () => {
+  it('follows the wall clock across a daylight saving change', () => {
+    // New York moves to daylight time on Sunday 2026-03-08
+    const days = workingIntervals(
+      at('2026-03-06T00:00:00Z'),
+      at('2026-03-10T23:00:00Z'),
+      'America/New_York',
+      { start: '09:00', end: '17:00', days: [1, 2, 3, 4, 5] }
+    );
+    expect(iso(days)).toEqual([
+      ['2026-03-06T14:00:00.000Z', '2026-03-06T22:00:00.000Z'],
+      ['2026-03-09T13:00:00.000Z', '2026-03-09T21:00:00.000Z'],
+      ['2026-03-10T13:00:00.000Z', '2026-03-10T21:00:00.000Z'],
+    ]);
+  });
+
+  it('clips the first and last day to the window', () => {
+    const days = workingIntervals(
+      at('2026-10-19T10:30:00Z'),
+      at('2026-10-20T11:00:00Z'),
+      'UTC',
+      { start: '09:00', end: '17:00', days: [1, 2] }
+    );
+    expect(iso(days)).toEqual([
+      ['2026-10-19T10:30:00.000Z', '2026-10-19T17:00:00.000Z'],
+      ['2026-10-20T09:00:00.000Z', '2026-10-20T11:00:00.000Z'],
+    ]);
+  });
+
+  it('rejects working hours that end before they start', () => {
+    expect(() => workingIntervals(at('2026-10-19T00:00:00Z'), at('2026-10-20T00:00:00Z'), 'UTC', {
+      start: '17:00', end: '09:00', days: [1],
+    })).toThrow(expect.objectContaining({ code: ErrorCodes.INVALID_INPUT }));
+  });
+
+  it('rejects a malformed time of day', () => {
+    expect(() => workingIntervals(at('2026-10-19T00:00:00Z'), at('2026-10-20T00:00:00Z'), 'UTC', {
+      start: '9am', end: '17:00', days: [1],
+    })).toThrow(expect.objectContaining({ code: ErrorCodes.INVALID_INPUT }));
+  });
+});
+
+describe('nextFreeInterval', () => {
+  const busy = [
+    interval('2026-10-19T09:00:00Z', '2026-10-19T10:00:00Z'),
+    interval('2026-10-19T10:30:00Z', '2026-10-19T11:00:00Z'),
+  ];
+
+  it('returns the requested time when it is free', () => {
+    const free = nextFreeInterval(busy, at('2026-10-19T08:00:00Z'), 60 * 60 * 1000, at('2026-10-20T00:00:00Z'));
+    expect(free?.start.toISOString()).toBe('2026-10-19T08:00:00.000Z');
+  });
+
+  it('skips past every busy block that would overlap', () => {
+    const free = nextFreeInterval(busy, at('2026-10-19T09:15:00Z'), 60 * 60 * 1000, at('2026-10-20T00:00:00Z'));
+    expect(free && iso([free])).toEqual([['2026-10-19T11:00:00.000Z', '2026-10-19T12:00:00.000Z']]);
+  });
+
+  it('returns null when nothing starts before the limit', () => {
+    expect(nextFreeInterval(busy, at('2026-10-19T09:15:00Z'), 60 * 60 * 1000, at('2026-10-19T11:00:00Z'))).toBeNull();
+  });
+
+  describe('within working hours', () => {
+    const hours = { start: '09:00', end: '18:00', days: [1, 2, 3, 4, 5] };
+    const within = (from: string, until: string) => workingIntervals(at(from), at(until), 'Asia/Seoul', hours);
+
+    it('moves past the end of the working day to the next working morning', () => {
+      // Monday 2026-10-19, 17:00-18:00 KST is busy; an hour from 16:30 KST no longer fits that day
+      const busyEvening = [interval('2026-10-19T08:00:00Z', '2026-10-19T09:00:00Z')];
+      const free = nextFreeInterval(busyEvening, at('2026-10-19T07:30:00Z'), 60 * 60 * 1000, at('2026-10-26T00:00:00Z'),
+        within('2026-10-19T07:30:00Z', '2026-10-26T00:00:00Z'));
+      expect(free && iso([free])).toEqual([['2026-10-20T00:00:00.000Z', '2026-10-20T01:00:00.000Z']]);
+    });
+
+    it('skips the weekend', () => {
+      // Friday 2026-10-23 17:30 KST
+      const free = nextFreeInterval([], at('2026-10-23T08:30:00Z'), 60 * 60 * 1000, at('2026-10-30T00:00:00Z'),
+        within('2026-10-23T08:30:00Z', '2026-10-30T00:00:00Z'));
+      expect(free?.start.toISOString()).toBe('2026-10-26T00:00:00.000Z');
+    });
+
+    it('keeps a free requested time inside working hours', () => {
+      const free = nextFreeInterval([], at('2026-10-20T01:15:00Z'), 30 * 60 * 1000, at('2026-10-21T00:00:00Z'),
+        within('2026-10-20T01:15:00Z', '2026-10-21T00:00:00Z'));
+      expect(free?.start.toISOString()).toBe('2026-10-20T01:15:00.000Z');
+    });
+
+    it('returns null for an event longer than the working day', () => {
+      expect(nextFreeInterval([], at('2026-10-20T00:00:00Z'), 10 * 60 * 60 * 1000, at('2026-10-27T00:00:00Z'),
+        within('2026-10-20T00:00:00Z', '2026-10-27T00:00:00Z'))).toBeNull();
+    });
+  });
+});
+
+describe('findFreeSlots', () => {
+  it('never offers a slot that overlaps a required participant', () => {
+    const slots = findFreeSlots(query({
+      busy: {
+        'a@example.com': [interval('2026-10-19T09:00:00Z', '2026-10-19T10:00:00Z')],
+        'b@example.com': [interval('2026-10-19T11:00:00Z', '2026-10-19T12:30:00Z')],
+      },
+      granularityMinutes: 30,
+    }));
+    expect(slots.map((s) => s.start.toISOString()).sort()).toEqual([
+      '2026-10-19T10:00:00.000Z',
+    ]);
+  });
+
+  it('aligns candidates to the grid on the wall clock of a non-UTC zone', () => {
+    // Kolkata is UTC+05:30, so an hourly grid there falls on the half hour in UTC
+    const slots = findFreeSlots(query({
+      windowStart: at('2026-10-19T03:40:00Z'),
+      windowEnd: at('2026-10-19T12:00:00Z'),
+      timeZone: 'Asia/Kolkata',
+      workingHours: { start: '09:00', end: '12:00', days: [1] },
+      granularityMinutes: 60,
+    }));
+    expect(slots.map((s) => s.start.toISOString()).sort()).toEqual([
+      '2026-10-19T04:30:00.000Z',
+      '2026-10-19T05:30:00.000Z',
+    ]);
+  });
+
+  it('ranks by busy optional participants, then breathing room, then start', () => {
+    const slots = findFreeSlots(query({
+      busy: { 'a@example.com': [interval('2026-10-19T09:00:00Z', '2026-10-19T09:30:00Z')] },
+      optionalBusy: { 'opt@example.com': [interval('2026-10-19T10:30:00Z', '2026-10-19T11:30:00Z')] },
+      granularityMinutes: 30,
+    }));
+    expect(slots.map((s) => [s.start.toISOString().slice(11, 16), s.score, s.unavailableOptional])).toEqual([
+      ['11:30', 1, []],
+      ['12:00', 1, []],
+      ['09:30', 0, []],
+      ['10:30', 0, ['opt@example.com']],
+      ['11:00', 0, ['opt@example.com']],
+      ['10:00', -0.5, ['opt@example.com']],
+    ]);
+  });
+
+  it('returns at most maxResults slots', () => {
+    expect(findFreeSlots(query({ granularityMinutes: 15, maxResults: 3 }))).toHaveLength(3);
+  });
+
+  it('skips days outside the working days', () => {
+    // 2026-10-24 and 25 are a weekend
+    const slots = findFreeSlots(query({
+      windowStart: at('2026-10-24T00:00:00Z'),
+      windowEnd: at('2026-10-26T00:00:00Z'),
+    }));
+    expect(slots).toEqual([]);
+  });
+
+  it.each([
+    ['a non-positive duration', { durationMinutes: 0 }, ErrorCodes.INVALID_DURATION],
+    ['a non-positive granularity', { granularityMinutes: 0 }, ErrorCodes.INVALID_INPUT],
+    ['a window that ends before it starts', { windowEnd: at('2026-10-18T00:00:00Z') }, ErrorCodes.INVALID_DATE],
+  ])('rejects %s', (_name, overrides, code) => {
+    expect(() => findFreeSlots(query(overrides))).toThrow(expect.objectContaining({ code }));
+  });
+});
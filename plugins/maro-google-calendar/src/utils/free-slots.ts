@@ -0,0 +1,203 @@
+/**
+ * Google Calendar MCP Server - Free Slot Finder
+ * Pure scheduling logic: turns busy intervals into ranked candidate meeting slots
+ */
+
+import { formatInTimeZone } from 'date-fns-tz';
+import type { FreeSlot, FreeSlotQuery, TimeInterval } from '../types/calendar.types.js';
+import { CalendarError, ErrorCodes } from './error-handler.js';
+import { zonedTimeToInstant } from './date-parser.js';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Gaps to neighbouring busy blocks beyond this no longer improve a slot's score
+ */
+const BUFFER_CAP_MINUTES = 60;
+
+const TIME_OF_DAY_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Parse "HH:mm" into minutes after midnight
+ */
+function parseTimeOfDay(value: string): number {
+  const match = value.match(TIME_OF_DAY_PATTERN);
+  if (!match) {
+    throw new CalendarError(`Invalid time of day: "${value}". Use HH:mm`, ErrorCodes.INVALID_INPUT);
+  }
+  return parseInt(match[1] || '0', 10) * 60 + parseInt(match[2] || '0', 10);
+}
+
+/**
+ * Sort and merge overlapping or touching intervals
+ */
+export function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const sorted = intervals
+    .filter((i) => i.end.getTime() > i.start.getTime())
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const merged: TimeInterval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start.getTime() <= last.end.getTime()) {
+      if (interval.end.getTime() > last.end.getTime()) last.end = new Date(interval.end);
+    } else {
+      merged.push({ start: new Date(interval.start), end: new Date(interval.end) });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Working-hour intervals for every day the window touches, in the query's time zone
+ */
+export function workingIntervals(
+  windowStart: Date,
+  windowEnd: Date,
+  timeZone: string,
+  workingHours: { start: string; end: string; days: number[] }
+): TimeInterval[] {
+  const startMinutes = parseTimeOfDay(workingHours.start);
+  const endMinutes = parseTimeOfDay(workingHours.end);
+  if (endMinutes <= startMinutes) {
+    throw new CalendarError('Working hours must end after they start', ErrorCodes.INVALID_INPUT);
+  }
+
+  const intervals: TimeInterval[] = [];
+  // Walk calendar dates in the target zone; noon UTC keeps the date arithmetic clear of DST edges
+  const first = formatInTimeZone(windowStart, timeZone, 'yyyy-MM-dd');
+  const last = formatInTimeZone(windowEnd, timeZone, 'yyyy-MM-dd');
+  for (let day = new Date(`${first}T12:00:00Z`); ; day = new Date(day.getTime() + DAY_MS)) {
+    const date = day.toISOString().slice(0, 10);
+    if (date > last) break;
+    if (!workingHours.days.includes(day.getUTCDay())) continue;
+
+    const toInstant = (minutes: number) => {
+      const hh = String(Math.floor(minutes / 60)).padStart(2, '0');
+      const mm = String(minutes % 60).padStart(2, '0');
+      return zonedTimeToInstant(`${date}T${hh}:${mm}:00`, timeZone);
+    };
+    const start = new Date(Math.max(toInstant(startMinutes).getTime(), windowStart.getTime()));
+    const end = new Date(Math.min(toInstant(endMinutes).getTime(), windowEnd.getTime()));
+    if (end > start) intervals.push({ start, end });
+  }
+  return intervals;
+}
+
+/**
+ * The parts of [from, until) that none of the intervals cover
+ */
+function uncovered(intervals: TimeInterval[], from: Date, until: Date): TimeInterval[] {
+  const gaps: TimeInterval[] = [];
+  let cursor = from.getTime();
+  for (const interval of mergeIntervals(intervals)) {
+    if (interval.start.getTime() > cursor) {
+      gaps.push({ start: new Date(cursor), end: new Date(Math.min(interval.start.getTime(), until.getTime())) });
+    }
+    cursor = Math.max(cursor, interval.end.getTime());
+  }
+  if (cursor < until.getTime()) gaps.push({ start: new Date(cursor), end: until });
+  return gaps;
+}
+
+/**
+ * The first interval of the given length at or after `from` that overlaps no busy block,
+ * or null if none starts before `until`. With `within` (such as working hours from
+ * workingIntervals), the interval must also fit inside one of those intervals.
+ */
+export function nextFreeInterval(
+  busy: TimeInterval[],
+  from: Date,
+  durationMs: number,
+  until: Date,
+  within?: TimeInterval[]
+): TimeInterval | null {
+  // Time outside `within` is as good as busy
+  const blocked = within
+    ? [...busy, ...uncovered(within, from, new Date(until.getTime() + durationMs))]
+    : busy;
+  let start = from.getTime();
+  for (const block of mergeIntervals(blocked)) {
+    if (block.end.getTime() <= start) continue;
+    if (block.start.getTime() >= start + durationMs) break;
+    start = block.end.getTime();
+  }
+  return start < until.getTime() ? { start: new Date(start), end: new Date(start + durationMs) } : null;
+}
+
+function overlaps(a: TimeInterval, b: TimeInterval): boolean {
+  return a.start.getTime() < b.end.getTime() && b.start.getTime() < a.end.getTime();
+}
+
+/**
+ * Minutes between a slot and the nearest busy block on either side (capped)
+ */
+function bufferMinutes(slot: TimeInterval, busy: TimeInterval[]): number {
+  let gap = BUFFER_CAP_MINUTES * MINUTE_MS;
+  for (const block of busy) {
+    if (block.end.getTime() <= slot.start.getTime()) {
+      gap = Math.min(gap, slot.start.getTime() - block.end.getTime());
+    } else if (block.start.getTime() >= slot.end.getTime()) {
+      gap = Math.min(gap, block.start.getTime() - slot.end.getTime());
+    }
+  }
+  return gap / MINUTE_MS;
+}
+
+/**
+ * Find slots of the requested length where every required participant is free.
+ *
+ * Candidates start on granularity boundaries inside working hours. Ranking, best first:
+ * fewest busy optional participants, then the most breathing room to neighbouring meetings,
+ * then the earliest start.
+ */
+export function findFreeSlots(query: FreeSlotQuery): FreeSlot[] {
+  const duration = query.durationMinutes * MINUTE_MS;
+  const step = (query.granularityMinutes ?? 30) * MINUTE_MS;
+  if (duration <= 0) {
+    throw new CalendarError('Meeting duration must be positive', ErrorCodes.INVALID_DURATION);
+  }
+  if (step <= 0) {
+    throw new CalendarError('Slot granularity must be positive', ErrorCodes.INVALID_INPUT);
+  }
+  if (query.windowEnd.getTime() <= query.windowStart.getTime()) {
+    throw new CalendarError('Search window must end after it starts', ErrorCodes.INVALID_DATE);
+  }
+
+  const requiredBusy = mergeIntervals(Object.values(query.busy).flat());
+  const optionalBusy = Object.entries(query.optionalBusy ?? {});
+  const days = workingIntervals(query.windowStart, query.windowEnd, query.timeZone, query.workingHours);
+
+  const candidates: FreeSlot[] = [];
+  for (const day of days) {
+    // Align to the granularity grid on the wall clock of the query's time zone
+    const [hours = 0, minutes = 0, seconds = 0] = formatInTimeZone(day.start, query.timeZone, 'H:m:s')
+      .split(':')
+      .map((part) => parseInt(part, 10));
+    const offset = (((hours * 60 + minutes) * 60 + seconds) * 1000 + day.start.getUTCMilliseconds()) % step;
+    let start = offset === 0 ? day.start.getTime() : day.start.getTime() + (step - offset);
+    for (; start + duration <= day.end.getTime(); start += step) {
+      const slot: TimeInterval = { start: new Date(start), end: new Date(start + duration) };
+      if (requiredBusy.some((block) => overlaps(block, slot))) continue;
+
+      const unavailableOptional = optionalBusy
+        .filter(([, intervals]) => intervals.some((block) => overlaps(block, slot)))
+        .map(([id]) => id);
+      const buffer = bufferMinutes(slot, requiredBusy);
+      candidates.push({
+        start: slot.start,
+        end: slot.end,
+        score: Math.round((buffer / BUFFER_CAP_MINUTES - unavailableOptional.length) * 100) / 100,
+        unavailableOptional,
+      });
+    }
+  }
+
+  return candidates
+    .sort((a, b) =>
+      a.unavailableOptional.length - b.unavailableOptional.length
+      || b.score - a.score
+      || a.start.getTime() - b.start.getTime())
+    .slice(0, query.maxResults ?? 10);
+}
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { startLoopbackListener, type LoopbackListener } from './loopback-server.js';
+
+let listener: LoopbackListener | undefined;
+
+afterEach(async () => {
+  await listener?.close();
+  listener = undefined;
+});
+
+async function visit(query: string): Promise<number> {
+  const response = await fetch(`${listener!.redirectUri}${query}`);
+  await response.text();
+  return response.status;
+}
+
+describe('startLoopbackListener', () => {
+  it('resolves with the code from a redirect carrying the expected state', async () => {
+    listener = await startLoopbackListener({ state: 'abc' });
+    expect(await visit('?code=4/xyz&state=abc')).toBe(200);
+    await expect(listener.code).resolves.toBe('4/xyz');
+  });
+
+  it('ignores requests without a code and state and keeps waiting', async () => {
+    listener = await startLoopbackListener({ state: 'abc' });
+    expect(await visit('')).toBe(400);
+    expect(await visit('?code=4/xyz')).toBe(400);
+    expect(await visit('?state=abc')).toBe(400);
+    expect(await visit('?code=4/xyz&state=abc')).toBe(200);
+    await expect(listener.code).resolves.toBe('4/xyz');
+  });
+
+  it('answers 404 for other paths without ending the flow', async () => {
+    listener = await startLoopbackListener({ state: 'abc' });
+    const response = await fetch(new URL('/favicon.ico', listener.redirectUri));
+    expect(response.status).toBe(404);
+    expect(await visit('?code=4/xyz&state=abc')).toBe(200);
+    await expect(listener.code).resolves.toBe('4/xyz');
+  });
+
+  it('fails on a state mismatch', async () => {
+    listener = await startLoopbackListener({ state: 'abc' });
+    expect(await visit('?code=4/xyz&state=other')).toBe(400);
+    await expect(listener.code).rejects.toThrow('state mismatch');
+  });
+
+  it('fails on an error redirect', async () => {
+    listener = await startLoopbackListener({ state: 'abc' });
+    expect(await visit('?error=access_denied&state=abc')).toBe(400);
+    await expect(listener.code).rejects.toThrow('Authorization denied: access_denied');
+  });
+
+  it('fails after the timeout', async () => {
+    listener = await startLoopbackListener({ state: 'abc', timeoutMs: 20 });
+    await expect(listener.code).rejects.toThrow('Timed out');
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Google Calendar MCP Server - Loopback Redirect Listener
+ * Temporary local HTTP listener that captures the OAuth2 redirect
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { CalendarError, ErrorCodes } from './error-handler.js';
+
+/**
+ * Default time to wait for the browser redirect (5 minutes)
+ */
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+
+const SUCCESS_PAGE =
+  '<!doctype html><html><body><h1>Authentication complete</h1>' +
+  '<p>You can close this window and return to Claude.</p></body></html>';
+
+const FAILURE_PAGE =
+  '<!doctype html><html><body><h1>Authentication failed</h1>' +
+  '<p>Return to Claude and check the authentication status.</p></body></html>';
+
+/**
+ * Options for starting a loopback listener
+ */
+export interface LoopbackListenerOptions {
+  /** Expected `state` parameter; a redirect carrying a different value fails the flow */
+  state: string;
+  /** Interface to bind (default: 127.0.0.1) */
+  host?: string;
+  /** Milliseconds to wait before giving up (default: 5 minutes) */
+  timeoutMs?: number;
+}
+
+/**
+ * A running loopback listener
+ */
+export interface LoopbackListener {
+  /** Redirect URI to register with the authorization request */
+  redirectUri: string;
+  /**
+   * Resolves with the authorization code. Rejects on an `error` redirect, a state mismatch or
+   * timeout; requests without a code and state, such as browser prefetches, are ignored.
+   */
+  code: Promise<string>;
+  /** Stop listening; safe to call more than once */
+  close(): Promise<void>;
+}
+
+/**
+ * Start a listener on an ephemeral port and wait for a single OAuth2 redirect
+ */
+export async function startLoopbackListener(
+  options: LoopbackListenerOptions
+): Promise<LoopbackListener> {
+  const host = options.host || '127.0.0.1';
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  let settle: { resolve: (code: string) => void; reject: (error: Error) => void } | undefined;
+  const code = new Promise<string>((resolve, reject) => {
+    settle = { resolve, reject };
+  });
+  // Callers that abandon the flow should not produce unhandled rejections
+  code.catch(() => {});
+
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', `http://${host}`);
+    if (url.pathname !== '/') {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const error = url.searchParams.get('error');
+    const receivedCode = url.searchParams.get('code');
+    const receivedState = url.searchParams.get('state');
+    const stateMismatch = receivedState !== null && receivedState !== options.state;
+
+    if (!error && !stateMismatch && (!receivedCode || !receivedState)) {
+      // Not the redirect (a prefetch or a stray visit); keep waiting for it
+      res.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' }).end('Missing code or state');
+      return;
+    }
+
+    if (error || stateMismatch || !receivedCode) {
+      res.writeHead(400, { 'Content-Type': 'text/html; charset=utf-8' }).end(FAILURE_PAGE);
+      const reason = error ? `Authorization denied: ${error}` : 'Authorization redirect state mismatch';
+      settle?.reject(new CalendarError(reason, ErrorCodes.AUTH_FLOW_FAILED));
+    } else {
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end(SUCCESS_PAGE);
+      settle?.resolve(receivedCode);
+    }
+    void close();
+  });
+
+  let closed = false;
+  const close = async (): Promise<void> => {
+    if (closed) return;
+    closed = true;
+    clearTimeout(timer);
+    settle?.reject(new CalendarError('Authorization flow was cancelled', ErrorCodes.AUTH_FLOW_FAILED));
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  };
+
+  const timer = setTimeout(() => {
+    settle?.reject(new CalendarError('Timed out waiting for the authorization redirect', ErrorCodes.AUTH_FLOW_FAILED));
+    void close();
+  }, timeoutMs);
+  timer.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, host, () => resolve());
+  });
+  server.unref();
+
+  const { port } = server.address() as AddressInfo;
+  return {
+    redirectUri: `http://${host}:${port}/`,
+    code,
+    close,
+  };
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { ErrorCodes } from './error-handler.js';
+import {
+  expandRecurrence,
+  needsOccurrenceCount,
+  parseRecurrence,
+  splitRecurrence,
+  unexpandableParts,
+} from './recurrence.js';
+
+const at = (iso: string) => new Date(iso);
+
+describe('splitRecurrence', () => {
+  it('ends a timed series one second before the split, in UTC', () => {
+    // Wednesdays 10:00 Asia/Seoul, split at 2026-11-04 10:00 KST
+    const split = splitRecurrence(
+      ['RRULE:FREQ=WEEKLY;BYDAY=WE'],
+      at('2026-10-21T01:00:00Z'),
+      at('2026-11-04T01:00:00Z'),
+      'Asia/Seoul'
+    );
+    expect(split).toEqual({
+      before: ['RRULE:FREQ=WEEKLY;BYDAY=WE;UNTIL=20261104T005959Z'],
+      after: ['RRULE:FREQ=WEEKLY;BYDAY=WE'],
+    });
+  });
+
+  it('ends an all-day series on the date before the split, whatever the zone', () => {
+    for (const [zone, seriesStart, splitAt] of [
+      ['UTC', '2026-10-23T00:00:00Z', '2026-11-06T00:00:00Z'],
+      ['Asia/Seoul', '2026-10-22T15:00:00Z', '2026-11-05T15:00:00Z'],
+      ['America/Los_Angeles', '2026-10-23T07:00:00Z', '2026-11-06T08:00:00Z'],
+    ] as const) {
+      expect(splitRecurrence(['RRULE:FREQ=WEEKLY;BYDAY=FR'], at(seriesStart), at(splitAt), zone, true)).toEqual({
+        before: ['RRULE:FREQ=WEEKLY;BYDAY=FR;UNTIL=20261105'],
+        after: ['RRULE:FREQ=WEEKLY;BYDAY=FR'],
+      });
+    }
+  });
+
+  it('moves the remaining COUNT to the new series', () => {
+    // Ten daily occurrences from 2026-10-27 09:00 America/Los_Angeles; three fall before the split
+    const split = splitRecurrence(
+      ['RRULE:FREQ=DAILY;COUNT=10'],
+      at('2026-10-27T16:00:00Z'),
+      at('2026-10-30T16:00:00Z'),
+      'America/Los_Angeles'
+    );
+    expect(split).toEqual({
+      before: ['RRULE:FREQ=DAILY;UNTIL=20261030T155959Z'],
+      after: ['RRULE:FREQ=DAILY;COUNT=7'],
+    });
+  });
+
+  it('leaves nothing for the new series once COUNT is used up', () => {
+    const split = splitRecurrence(
+      ['RRULE:FREQ=DAILY;COUNT=3'],
+      at('2026-10-27T16:00:00Z'),
+      at('2026-10-30T16:00:00Z'),
+      'America/Los_Angeles'
+    );
+    expect(split.after).toEqual([]);
+  });
+
+  it('replaces a later UNTIL and keeps it for the new series, splitting EXDATEs by date', () => {
+    const split = splitRecurrence(
+      ['RRULE:FREQ=WEEKLY;UNTIL=20261231T235959Z', 'EXDATE:20261103T140000Z,20261117T140000Z'],
+      at('2026-10-20T14:00:00Z'),
+      at('2026-11-10T14:00:00Z'),
+      'UTC'
+    );
+    expect(split).toEqual({
+      before: ['RRULE:FREQ=WEEKLY;UNTIL=20261110T135959Z', 'EXDATE:20261103T140000Z'],
+      after: ['RRULE:FREQ=WEEKLY;UNTIL=20261231T235959Z', 'EXDATE:20261117T140000Z'],
+    });
+  });
+
+  it('keeps a rule that already ends before the split', () => {
+    const split = splitRecurrence(
+      ['RRULE:FREQ=WEEKLY;UNTIL=20261031T235959Z'],
+      at('2026-10-20T14:00:00Z'),
+      at('2026-11-10T14:00:00Z'),
+      'UTC'
+    );
+    expect(split).toEqual({ before: ['RRULE:FREQ=WEEKLY;UNTIL=20261031T235959Z'], after: [] });
+  });
+});
+
+describe('rules the preview cannot expand', () => {
+  // Last weekday of each month, 09:00 UTC from 2026-10-30
+  const lastWeekday = 'RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1';
+
+  it('names the parts it cannot expand', () => {
+    expect(unexpandableParts([lastWeekday, 'EXDATE:20261130T090000Z'])).toEqual(['BYSETPOS']);
+    expect(unexpandableParts(['RRULE:FREQ=DAILY;BYHOUR=9,17;BYMINUTE=0'])).toEqual(['BYHOUR', 'BYMINUTE']);
+    expect(unexpandableParts(['RRULE:FREQ=WEEKLY;BYDAY=MO;WKST=SU'])).toEqual([]);
+  });
+
+  it('accepts them as raw lines', () => {
+    expect(parseRecurrence(lastWeekday, at('2026-10-30T09:00:00Z'), 'UTC').rules).toEqual([lastWeekday]);
+    expect(parseRecurrence('RRULE:FREQ=YEARLY;BYWEEKNO=20;BYDAY=MO', at('2026-05-11T09:00:00Z'), 'UTC').rules)
+      .toEqual(['RRULE:FREQ=YEARLY;BYWEEKNO=20;BYDAY=MO']);
+  });
+
+  it('still rejects a rule Google Calendar cannot save', () => {
+    expect(() => parseRecurrence('RRULE:BYSETPOS=1', at('2026-10-30T09:00:00Z'), 'UTC'))
+      .toThrow(expect.objectContaining({ code: ErrorCodes.INVALID_INPUT }));
+  });
+
+  it('does not expand them', () => {
+    expect(() => expandRecurrence([lastWeekday], at('2026-10-30T09:00:00Z'), 'UTC'))
+      .toThrow('Recurrence preview does not support BYSETPOS');
+  });
+
+  it('splits them by rewriting only UNTIL', () => {
+    const split = splitRecurrence([lastWeekday], at('2026-10-30T09:00:00Z'), at('2027-01-29T09:00:00Z'), 'UTC');
+    expect(split).toEqual({
+      before: [`${lastWeekday};UNTIL=20270129T085959Z`],
+      after: [lastWeekday],
+    });
+    expect(needsOccurrenceCount([lastWeekday])).toBe(false);
+  });
+
+  it('splits them by rewriting only COUNT, from the occurrences counted by the caller', () => {
+    const rule = `${lastWeekday};COUNT=6`;
+    expect(needsOccurrenceCount([rule])).toBe(true);
+
+    const split = splitRecurrence([rule], at('2026-10-30T09:00:00Z'), at('2027-01-29T09:00:00Z'), 'UTC', false, 3);
+    expect(split).toEqual({
+      before: [`${lastWeekday};UNTIL=20270129T085959Z`],
+      after: [`${lastWeekday};COUNT=3`],
+    });
+    expect(() => splitRecurrence([rule], at('2026-10-30T09:00:00Z'), at('2027-01-29T09:00:00Z'), 'UTC'))
+      .toThrow(expect.objectContaining({ code: ErrorCodes.INVALID_INPUT }));
+  });
+});
@@ -0,0 +1,577 @@
+/**
+ * Google Calendar MCP Server - Recurrence Utility
+ * Translates natural-language repeat phrases to RFC 5545 rules and previews occurrences
+ */
+
+import { formatInTimeZone } from 'date-fns-tz';
+import type { ParsedRecurrence, RecurrenceOccurrence } from '../types/calendar.types.js';
+import { CalendarError, ErrorCodes } from './error-handler.js';
+import { parseDateTime, zonedTimeToInstant } from './date-parser.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Upper bound on expanded periods so malformed rules cannot loop forever
+ */
+const MAX_PERIODS = 10000;
+
+const RAW_LINE_PATTERN = /^(RRULE|EXRULE|RDATE|EXDATE)[:;]/i;
+
+/**
+ * RRULE parts the preview can expand. Google Calendar accepts others, such as BYSETPOS or BYHOUR
+ */
+const EXPANDABLE_PARTS = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'WKST'];
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+type WeekdayCode = (typeof WEEKDAY_CODES)[number];
+
+const WEEKDAY_NAMES: Record<string, WeekdayCode> = {
+  sunday: 'SU', sun: 'SU',
+  monday: 'MO', mon: 'MO',
+  tuesday: 'TU', tue: 'TU', tues: 'TU',
+  wednesday: 'WE', wed: 'WE',
+  thursday: 'TH', thu: 'TH', thur: 'TH', thurs: 'TH',
+  friday: 'FR', fri: 'FR',
+  saturday: 'SA', sat: 'SA',
+};
+const WEEKDAY_PATTERN = '(sunday|monday|tuesday|wednesday|thursday|friday|saturday|sun|mon|tues?|wed|thu(?:rs?)?|fri|sat)s?';
+
+const ORDINALS: Record<string, number> = {
+  first: 1, '1st': 1,
+  second: 2, '2nd': 2,
+  third: 3, '3rd': 3,
+  fourth: 4, '4th': 4,
+  fifth: 5, '5th': 5,
+  last: -1,
+};
+
+const FREQUENCY_WORDS: Record<string, string> = {
+  daily: 'DAILY', day: 'DAILY', days: 'DAILY',
+  weekly: 'WEEKLY', week: 'WEEKLY', weeks: 'WEEKLY',
+  monthly: 'MONTHLY', month: 'MONTHLY', months: 'MONTHLY',
+  yearly: 'YEARLY', annually: 'YEARLY', year: 'YEARLY', years: 'YEARLY',
+};
+
+/**
+ * Wall-clock date in the event's time zone
+ */
+interface CivilDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+/**
+ * Parsed RRULE properties supported by the preview
+ */
+interface RuleParts {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay: Array<{ ordinal: number; weekday: number }>;
+  byMonthDay: number[];
+  byMonth: number[];
+  /** Parts outside EXPANDABLE_PARTS */
+  unsupported: string[];
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+function civilToUtcNoon(date: CivilDate): Date {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day, 12));
+}
+
+function utcNoonToCivil(date: Date): CivilDate {
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function civilKey(date: CivilDate): string {
+  return `${date.year}${pad(date.month)}${pad(date.day)}`;
+}
+
+/**
+ * Format an instant as an RFC 5545 UNTIL/EXDATE value
+ */
+function formatRfc5545(date: Date, isAllDay: boolean, timeZone: string): string {
+  return isAllDay
+    ? formatInTimeZone(date, timeZone, 'yyyyMMdd')
+    : formatInTimeZone(date, 'UTC', "yyyyMMdd'T'HHmmss'Z'");
+}
+
+/**
+ * Parse an RFC 5545 date or date-time value (optionally with a TZID) to an instant
+ */
+function parseRfc5545Date(value: string, timeZone: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    throw new CalendarError(`Invalid RFC 5545 date: "${value}"`, ErrorCodes.INVALID_DATE);
+  }
+  const [, y, mo, d, h = '00', mi = '00', s = '00', z] = match;
+  const local = `${y}-${mo}-${d}T${h}:${mi}:${s}`;
+  return z ? new Date(`${local}Z`) : zonedTimeToInstant(local, timeZone);
+}
+
+/**
+ * Split "EXDATE;TZID=Asia/Seoul:20240101T090000,20240108T090000" into instants
+ */
+function parseDateList(line: string, timeZone: string): Date[] {
+  const separator = line.indexOf(':');
+  const params = line.slice(0, separator).split(';').slice(1);
+  const tzid = params.find((p) => p.toUpperCase().startsWith('TZID='))?.slice(5) || timeZone;
+  return line
+    .slice(separator + 1)
+    .split(',')
+    .map((value) => parseRfc5545Date(value.trim(), tzid));
+}
+
+function ruleProperties(line: string): Map<string, string> {
+  const body = line.slice(line.indexOf(':') + 1);
+  const props = new Map<string, string>();
+  for (const part of body.split(';')) {
+    const [key, value] = part.split('=');
+    if (key && value) props.set(key.toUpperCase(), value.toUpperCase());
+  }
+  return props;
+}
+
+function parseRule(line: string, timeZone: string): RuleParts {
+  const props = ruleProperties(line);
+  const freq = props.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY' && freq !== 'YEARLY') {
+    throw new CalendarError(
+      `Unsupported or missing FREQ in "${line}". Use DAILY, WEEKLY, MONTHLY or YEARLY`,
+      ErrorCodes.INVALID_INPUT
+    );
+  }
+
+  const byDay = (props.get('BYDAY') || '')
+    .split(',')
+    .filter(Boolean)
+    .map((token) => {
+      const match = token.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+      if (!match) throw new CalendarError(`Invalid BYDAY value: "${token}"`, ErrorCodes.INVALID_INPUT);
+      return { ordinal: match[1] ? parseInt(match[1], 10) : 0, weekday: WEEKDAY_CODES.indexOf(match[2] as WeekdayCode) };
+    });
+  const numbers = (key: string) => (props.get(key) || '').split(',').filter(Boolean).map((n) => parseInt(n, 10));
+
+  return {
+    freq,
+    interval: Math.max(1, parseInt(props.get('INTERVAL') || '1', 10)),
+    count: props.has('COUNT') ? parseInt(props.get('COUNT')!, 10) : undefined,
+    until: props.has('UNTIL') ? parseRfc5545Date(props.get('UNTIL')!, timeZone) : undefined,
+    byDay,
+    byMonthDay: numbers('BYMONTHDAY'),
+    byMonth: numbers('BYMONTH'),
+    unsupported: [...props.keys()].filter((key) => !EXPANDABLE_PARTS.includes(key)),
+  };
+}
+
+/**
+ * RRULE parts in the lines that expandRecurrence cannot expand, such as BYSETPOS.
+ * Google Calendar expands them itself, so a series using them is saved without a preview.
+ */
+export function unexpandableParts(lines: string[]): string[] {
+  const parts = lines
+    .filter((line) => /^RRULE[:;]/i.test(line))
+    .flatMap((line) => [...ruleProperties(line).keys()])
+    .filter((key) => !EXPANDABLE_PARTS.includes(key));
+  return [...new Set(parts)];
+}
+
+/**
+ * Whether splitRecurrence needs the number of occurrences before the split from the caller:
+ * a rule with COUNT has parts the preview cannot expand, so it cannot count them itself
+ */
+export function needsOccurrenceCount(lines: string[]): boolean {
+  return lines
+    .filter((line) => /^RRULE[:;]/i.test(line))
+    .map(ruleProperties)
+    .some((props) => props.has('COUNT') && [...props.keys()].some((key) => !EXPANDABLE_PARTS.includes(key)));
+}
+
+/**
+ * Days of one month matching BYDAY (with or without ordinals) and BYMONTHDAY
+ */
+function expandMonth(year: number, month: number, rule: RuleParts, fallbackDay: number): number[] {
+  const length = daysInMonth(year, month);
+  let days: number[];
+  if (rule.byMonthDay.length > 0) {
+    days = rule.byMonthDay.map((d) => (d < 0 ? length + d + 1 : d)).filter((d) => d >= 1 && d <= length);
+  } else if (rule.byDay.length > 0) {
+    days = [];
+    for (const { ordinal, weekday } of rule.byDay) {
+      const matching: number[] = [];
+      for (let d = 1; d <= length; d++) {
+        if (new Date(Date.UTC(year, month - 1, d)).getUTCDay() === weekday) matching.push(d);
+      }
+      if (ordinal === 0) days.push(...matching);
+      else {
+        const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (picked !== undefined) days.push(picked);
+      }
+    }
+  } else {
+    days = fallbackDay <= length ? [fallbackDay] : [];
+  }
+  if (rule.byMonthDay.length > 0 && rule.byDay.length > 0) {
+    const weekdays = rule.byDay.map((d) => d.weekday);
+    days = days.filter((d) => weekdays.includes(new Date(Date.UTC(year, month - 1, d)).getUTCDay()));
+  }
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+/**
+ * Candidate dates of the period that starts `period` intervals after the first one
+ */
+function expandPeriod(rule: RuleParts, start: CivilDate, period: number): CivilDate[] {
+  const step = period * rule.interval;
+  switch (rule.freq) {
+    case 'DAILY': {
+      const date = utcNoonToCivil(new Date(civilToUtcNoon(start).getTime() + step * DAY_MS));
+      return [date];
+    }
+    case 'WEEKLY': {
+      // Weeks start on Monday (WKST=MO)
+      const startNoon = civilToUtcNoon(start);
+      const monday = new Date(startNoon.getTime() - ((startNoon.getUTCDay() + 6) % 7) * DAY_MS + step * 7 * DAY_MS);
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map((d) => d.weekday) : [startNoon.getUTCDay()];
+      return [...new Set(weekdays)]
+        .map((weekday) => utcNoonToCivil(new Date(monday.getTime() + ((weekday + 6) % 7) * DAY_MS)))
+        .sort((a, b) => civilKey(a).localeCompare(civilKey(b)));
+    }
+    case 'MONTHLY': {
+      const index = start.year * 12 + (start.month - 1) + step;
+      const year = Math.floor(index / 12);
+      const month = (index % 12) + 1;
+      return expandMonth(year, month, rule, start.day).map((day) => ({ year, month, day }));
+    }
+    case 'YEARLY': {
+      const year = start.year + step;
+      const months = rule.byMonth.length > 0 ? [...rule.byMonth].sort((a, b) => a - b) : [start.month];
+      return months.flatMap((month) =>
+        expandMonth(year, month, rule, start.day).map((day) => ({ year, month, day })));
+    }
+  }
+}
+
+/**
+ * Expand recurrence lines into the next occurrences of an event.
+ * Supports FREQ, INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY and BYMONTH, plus RDATE/EXDATE;
+ * rules with other parts are rejected, so check unexpandableParts first.
+ * The start itself is the first occurrence unless `includeStart` is false.
+ */
+export function expandRecurrence(
+  lines: string[],
+  start: Date,
+  timeZone: string,
+  options: { count?: number; after?: Date; isAllDay?: boolean; includeStart?: boolean } = {}
+): RecurrenceOccurrence[] {
+  const limit = options.count ?? 5;
+  const after = options.after?.getTime() ?? Number.NEGATIVE_INFINITY;
+  const rules = lines.filter((l) => /^RRULE[:;]/i.test(l)).map((l) => parseRule(l, timeZone));
+  const unsupported = unexpandableParts(lines);
+  if (unsupported.length > 0) {
+    throw new CalendarError(`Recurrence preview does not support ${unsupported.join(', ')}`, ErrorCodes.INVALID_INPUT);
+  }
+  const excluded = new Set(
+    lines.filter((l) => /^EXDATE[:;]/i.test(l)).flatMap((l) => parseDateList(l, timeZone)).map((d) => d.getTime())
+  );
+  const extra = lines.filter((l) => /^RDATE[:;]/i.test(l)).flatMap((l) => parseDateList(l, timeZone));
+
+  const startCivil: CivilDate = {
+    year: parseInt(formatInTimeZone(start, timeZone, 'yyyy'), 10),
+    month: parseInt(formatInTimeZone(start, timeZone, 'M'), 10),
+    day: parseInt(formatInTimeZone(start, timeZone, 'd'), 10),
+  };
+  const wallTime = options.isAllDay ? '00:00:00' : formatInTimeZone(start, timeZone, 'HH:mm:ss');
+  const toInstant = (date: CivilDate) =>
+    zonedTimeToInstant(`${date.year}-${pad(date.month)}-${pad(date.day)}T${wallTime}`, timeZone);
+
+  const instants = new Set<number>(extra.map((d) => d.getTime()));
+  if (options.includeStart !== false) instants.add(start.getTime());
+  for (const rule of rules) {
+    let produced = 0;
+    let collected = 0;
+    for (let period = 0; period < MAX_PERIODS; period++) {
+      let stop = false;
+      for (const date of expandPeriod(rule, startCivil, period)) {
+        if (rule.byMonth.length > 0 && rule.freq !== 'YEARLY' && !rule.byMonth.includes(date.month)) continue;
+        if (rule.freq === 'DAILY' && rule.byDay.length > 0
+          && !rule.byDay.some((d) => d.weekday === civilToUtcNoon(date).getUTCDay())) continue;
+        const instant = toInstant(date);
+        if (instant.getTime() < start.getTime()) continue;
+        if (rule.until && instant.getTime() > rule.until.getTime()) { stop = true; break; }
+        // COUNT includes DTSTART and excluded dates, per RFC 5545
+        produced += 1;
+        if (rule.count !== undefined && produced > rule.count) { stop = true; break; }
+        instants.add(instant.getTime());
+        if (instant.getTime() > after) collected += 1;
+      }
+      if (stop || collected >= limit + excluded.size) break;
+    }
+  }
+
+  return [...instants]
+    .filter((t) => !excluded.has(t) && t > after)
+    .sort((a, b) => a - b)
+    .slice(0, limit)
+    .map((t) => {
+      const date = new Date(t);
+      return options.isAllDay
+        ? { start: formatInTimeZone(date, timeZone, 'yyyy-MM-dd') }
+        : { start: formatInTimeZone(date, timeZone, "yyyy-MM-dd'T'HH:mm:ssXXX") };
+    });
+}
+
+/**
+ * Translate one natural-language phrase (e.g., "every other Tuesday until March") to RRULE lines
+ */
+function parsePhrase(phrase: string, start: Date, timeZone: string, isAllDay: boolean): ParsedRecurrence {
+  let text = phrase.toLowerCase().replace(/[.,]/g, ' ').replace(/\s+/g, ' ').trim();
+  const parts: string[] = [];
+  let timeOfDay: string | undefined;
+
+  // "until March", "through June 30"
+  const untilMatch = text.match(/\b(?:until|till|through|thru)\s+(.+)$/);
+  if (untilMatch) {
+    const untilDate = parseDateTime(untilMatch[1]!, start, timeZone);
+    const endOfDay = zonedTimeToInstant(
+      `${formatInTimeZone(untilDate.dateTime, timeZone, 'yyyy-MM-dd')}T23:59:59`,
+      timeZone
+    );
+    parts.push(`UNTIL=${formatRfc5545(endOfDay, isAllDay, timeZone)}`);
+    text = text.slice(0, untilMatch.index).trim();
+  }
+
+  // "for 10 times", "10 occurrences"
+  const countMatch = text.match(/\b(?:for\s+)?(\d+)\s*(?:times|occurrences?)\b/);
+  if (countMatch) {
+    parts.push(`COUNT=${countMatch[1]}`);
+    text = text.replace(countMatch[0], ' ').trim();
+  }
+
+  // "at 9am", "at 14:30"
+  const timeMatch = text.match(/\bat\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\b/);
+  if (timeMatch) {
+    let hour = parseInt(timeMatch[1]!, 10);
+    const minute = parseInt(timeMatch[2] || '0', 10);
+    if (timeMatch[3] === 'pm' && hour < 12) hour += 12;
+    if (timeMatch[3] === 'am' && hour === 12) hour = 0;
+    if (hour > 23 || minute > 59) {
+      throw new CalendarError(`Invalid time in recurrence: "${timeMatch[0]}"`, ErrorCodes.INVALID_INPUT);
+    }
+    timeOfDay = `${pad(hour)}:${pad(minute)}`;
+    text = text.replace(timeMatch[0], ' ').trim();
+  }
+  text = text.replace(/\s+/g, ' ').trim();
+
+  let freq: string | undefined;
+  let interval = 1;
+  const byDay: string[] = [];
+  let byMonthDay: number | undefined;
+
+  const intervalMatch = text.match(/\bevery\s+(other|\d+)\b/);
+  if (intervalMatch) interval = intervalMatch[1] === 'other' ? 2 : parseInt(intervalMatch[1]!, 10);
+
+  // "first Monday of the month", "last Friday"
+  const positional = text.match(new RegExp(`\\b(first|second|third|fourth|fifth|last|1st|2nd|3rd|4th|5th)\\s+${WEEKDAY_PATTERN}\\b(\\s+of\\s+(?:the|every|each)\\s+month)?`));
+  const positionalIsMonthly = positional
+    && (positional[3] || !['second', '2nd'].includes(positional[1]!) || /\bmonth/.test(text));
+  if (positional && positionalIsMonthly) {
+    freq = 'MONTHLY';
+    byDay.push(`${ORDINALS[positional[1]!]}${WEEKDAY_NAMES[positional[2]!]}`);
+  } else {
+    if (positional) interval = 2; // "every second Tuesday" means fortnightly
+    if (/\bweekdays?\b/.test(text) && !/\bweekday\s+of\b/.test(text)) {
+      freq = 'WEEKLY';
+      byDay.push('MO', 'TU', 'WE', 'TH', 'FR');
+    } else if (/\bweekends?\b/.test(text)) {
+      freq = 'WEEKLY';
+      byDay.push('SA', 'SU');
+    } else {
+      for (const match of text.matchAll(new RegExp(`\\b${WEEKDAY_PATTERN}\\b`, 'g'))) {
+        const code = WEEKDAY_NAMES[match[1]!];
+        if (code && !byDay.includes(code)) byDay.push(code);
+      }
+      if (byDay.length > 0) freq = 'WEEKLY';
+    }
+  }
+
+  const monthDayMatch = text.match(/\bon\s+the\s+(\d{1,2})(?:st|nd|rd|th)?\b/) || text.match(/\b(\d{1,2})(?:st|nd|rd|th)\s+of\s+(?:the|every|each)\s+month\b/);
+  if (monthDayMatch) {
+    freq = 'MONTHLY';
+    byMonthDay = parseInt(monthDayMatch[1]!, 10);
+    if (byMonthDay < 1 || byMonthDay > 31) {
+      throw new CalendarError(`Invalid day of month in recurrence: "${phrase}"`, ErrorCodes.INVALID_INPUT);
+    }
+  }
+
+  if (!freq) {
+    for (const word of text.split(' ')) {
+      if (FREQUENCY_WORDS[word]) {
+        freq = FREQUENCY_WORDS[word];
+        break;
+      }
+    }
+  }
+  if (!freq && /\bmonth\b/.test(text)) freq = 'MONTHLY';
+
+  if (!freq) {
+    throw new CalendarError(
+      `Could not understand recurrence: "${phrase}". Try "every weekday", "every other Tuesday", ` +
+        '"monthly on the 15th" or a raw RRULE such as "RRULE:FREQ=WEEKLY;BYDAY=MO"',
+      ErrorCodes.INVALID_INPUT
+    );
+  }
+
+  const rule = [`FREQ=${freq}`];
+  if (interval > 1) rule.push(`INTERVAL=${interval}`);
+  if (byDay.length > 0) rule.push(`BYDAY=${byDay.join(',')}`);
+  if (byMonthDay !== undefined) rule.push(`BYMONTHDAY=${byMonthDay}`);
+  rule.push(...parts);
+
+  return { rules: [`RRULE:${rule.join(';')}`], timeOfDay };
+}
+
+/**
+ * Normalize recurrence input into RFC 5545 lines.
+ * Raw RRULE/EXRULE/RDATE/EXDATE lines pass through; anything else is treated as a phrase.
+ */
+export function parseRecurrence(
+  input: string | string[],
+  start: Date,
+  timeZone: string,
+  isAllDay = false
+): ParsedRecurrence {
+  const entries = (Array.isArray(input) ? input : [input]).map((e) => e.trim()).filter(Boolean);
+  const rules: string[] = [];
+  let timeOfDay: string | undefined;
+
+  for (const entry of entries) {
+    if (RAW_LINE_PATTERN.test(entry)) {
+      const key = entry.match(RAW_LINE_PATTERN)![1]!.toUpperCase();
+      const line = key + entry.slice(key.length);
+      if (key === 'RRULE') parseRule(line, timeZone); // validate FREQ, BYDAY and UNTIL
+      rules.push(line);
+      continue;
+    }
+    const parsed = parsePhrase(entry, start, timeZone, isAllDay);
+    rules.push(...parsed.rules);
+    timeOfDay = parsed.timeOfDay ?? timeOfDay;
+  }
+
+  if (!rules.some((r) => /^(RRULE|RDATE)[:;]/i.test(r))) {
+    throw new CalendarError('Recurrence needs at least one RRULE or RDATE', ErrorCodes.INVALID_INPUT);
+  }
+  return { rules, timeOfDay };
+}
+
+function parseOccurrence(occurrence: RecurrenceOccurrence, timeZone: string): Date {
+  return occurrence.start.includes('T')
+    ? new Date(occurrence.start)
+    : zonedTimeToInstant(`${occurrence.start}T00:00:00`, timeZone);
+}
+
+/**
+ * Replace or remove properties of an RRULE line, keeping the others as written
+ */
+function setRuleProperties(line: string, updates: Record<string, string | undefined>): string {
+  const separator = line.indexOf(':');
+  const kept = line
+    .slice(separator + 1)
+    .split(';')
+    .filter((part) => !(part.split('=')[0]!.toUpperCase() in updates));
+  const added = Object.entries(updates)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${value}`);
+  return `${line.slice(0, separator)}:${[...kept, ...added].join(';')}`;
+}
+
+/**
+ * Keep the RDATE/EXDATE values of a line that fall on one side of `splitAt`
+ */
+function filterDateLine(line: string, splitAt: Date, timeZone: string, keepBefore: boolean): string | null {
+  const separator = line.indexOf(':');
+  const values = line.slice(separator + 1).split(',').map((v) => v.trim());
+  const instants = parseDateList(line, timeZone);
+  const kept = values.filter((_, i) => (instants[i]!.getTime() < splitAt.getTime()) === keepBefore);
+  return kept.length > 0 ? `${line.slice(0, separator)}:${kept.join(',')}` : null;
+}
+
+/**
+ * End a series just before `splitAt`: each rule that runs past it gets an UNTIL in place of any
+ * COUNT, and RDATE/EXDATE values from the split on are dropped
+ */
+export function endRecurrence(lines: string[], splitAt: Date, timeZone: string, isAllDay = false): string[] {
+  // UNTIL is inclusive, so end one second (all-day: one day) before the split
+  const until = formatRfc5545(new Date(splitAt.getTime() - 1000), isAllDay, timeZone);
+  return lines.flatMap((line) => {
+    const key = line.match(RAW_LINE_PATTERN)?.[1]?.toUpperCase();
+    if (key === 'RRULE') {
+      const rule = parseRule(line, timeZone);
+      const endsBeforeSplit = rule.until && rule.until.getTime() < splitAt.getTime();
+      return [endsBeforeSplit ? line : setRuleProperties(line, { COUNT: undefined, UNTIL: until })];
+    }
+    if (key === 'RDATE' || key === 'EXDATE') {
+      const kept = filterDateLine(line, splitAt, timeZone, true);
+      return kept ? [kept] : [];
+    }
+    return [line];
+  });
+}
+
+/**
+ * Split a series at `splitAt`, the original start of the first occurrence that moves to a
+ * new series. The original rules end just before it with UNTIL; the new series keeps the
+ * same rules, with COUNT reduced by the occurrences the original series already used.
+ * A rule whose COUNT is used up before the split is dropped from the new series.
+ * When the preview cannot expand a rule with COUNT (see needsOccurrenceCount), the caller
+ * passes `occurrencesBefore`, counted from the stored series.
+ */
+export function splitRecurrence(
+  lines: string[],
+  seriesStart: Date,
+  splitAt: Date,
+  timeZone: string,
+  isAllDay = false,
+  occurrencesBefore?: number
+): { before: string[]; after: string[] } {
+  const after: string[] = [];
+  for (const line of lines) {
+    const key = line.match(RAW_LINE_PATTERN)?.[1]?.toUpperCase();
+    if (key === 'RRULE') {
+      const rule = parseRule(line, timeZone);
+      if (rule.until && rule.until.getTime() < splitAt.getTime()) continue;
+      if (rule.count === undefined) {
+        after.push(line);
+        continue;
+      }
+
+      let used = occurrencesBefore;
+      if (rule.unsupported.length === 0) {
+        used = expandRecurrence([line], seriesStart, timeZone, { count: rule.count, isAllDay })
+          .filter((o) => parseOccurrence(o, timeZone).getTime() < splitAt.getTime()).length;
+      }
+      if (used === undefined) {
+        throw new CalendarError(
+          `Cannot count the occurrences of "${line}" before the split`,
+          ErrorCodes.INVALID_INPUT
+        );
+      }
+      if (rule.count > used) after.push(setRuleProperties(line, { COUNT: String(rule.count - used) }));
+    } else if (key === 'RDATE' || key === 'EXDATE') {
+      const moved = filterDateLine(line, splitAt, timeZone, false);
+      if (moved) after.push(moved);
+    } else {
+      after.push(line);
+    }
+  }
+  return { before: endRecurrence(lines, splitAt, timeZone, isAllDay), after };
+}
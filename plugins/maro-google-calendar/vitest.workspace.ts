@@ -0,0 +1,25 @@
+import { defineWorkspace } from 'vitest/config';
+
+/**
+ * Date handling must not depend on the host's zone, so its suite runs once per zone
+ */
+const HOST_TIME_ZONES = ['UTC', 'America/Los_Angeles', 'Asia/Seoul'];
+
+const ZONED_SUITES = ['src/utils/date-parser.test.ts', 'src/utils/date-locale.test.ts'];
+
+export default defineWorkspace([
+  {
+    test: {
+      name: 'unit',
+      include: ['src/**/*.test.ts'],
+      exclude: ZONED_SUITES,
+    },
+  },
+  ...HOST_TIME_ZONES.map((timeZone) => ({
+    test: {
+      name: `TZ=${timeZone}`,
+      include: ZONED_SUITES,
+      env: { TZ: timeZone },
+    },
+  })),
+]);